@@ -4,11 +4,20 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "./contexts/AuthContext";
+import { CinemaProvider } from "./contexts/CinemaContext";
+import { AdminRoute } from "./components/AdminRoute";
+import { StaffRoute } from "./components/StaffRoute";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import MovieDetails from "./pages/MovieDetails";
+import Showtimes from "./pages/Showtimes";
 import SeatSelection from "./pages/SeatSelection";
 import Bookings from "./pages/Bookings";
+import Checkout from "./pages/Checkout";
+import AddOns from "./pages/AddOns";
+import Ticket from "./pages/Ticket";
+import Admin from "./pages/Admin";
+import CheckIn from "./pages/CheckIn";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -20,15 +29,37 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/movie/:id" element={<MovieDetails />} />
-            <Route path="/booking/:showtimeId" element={<SeatSelection />} />
-            <Route path="/bookings" element={<Bookings />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <CinemaProvider>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/auth" element={<Auth />} />
+              <Route path="/movie/:id" element={<MovieDetails />} />
+              <Route path="/showtimes" element={<Showtimes />} />
+              <Route path="/booking/:showtimeId" element={<SeatSelection />} />
+              <Route path="/checkout/:bookingId" element={<Checkout />} />
+              <Route path="/checkout/:bookingId/add-ons" element={<AddOns />} />
+              <Route path="/bookings" element={<Bookings />} />
+              <Route path="/tickets/:bookingId" element={<Ticket />} />
+              <Route
+                path="/admin"
+                element={
+                  <AdminRoute>
+                    <Admin />
+                  </AdminRoute>
+                }
+              />
+              <Route
+                path="/checkin"
+                element={
+                  <StaffRoute>
+                    <CheckIn />
+                  </StaffRoute>
+                }
+              />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </CinemaProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
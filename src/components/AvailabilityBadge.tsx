@@ -0,0 +1,25 @@
+import { Badge } from '@/components/ui/badge';
+import { getAvailabilityState } from '@/lib/bookings';
+import type { ShowtimeAvailability } from '@/hooks/use-showtime-availability';
+
+interface AvailabilityBadgeProps {
+  availability: ShowtimeAvailability | undefined;
+  className?: string;
+}
+
+// Only shown when it's worth acting on: nearly full, fully held or full
+export const AvailabilityBadge = ({ availability, className }: AvailabilityBadgeProps) => {
+  if (!availability) return null;
+
+  const state = getAvailabilityState(availability);
+  if (state === 'sold_out') {
+    return <Badge variant="destructive" className={className}>Sold out</Badge>;
+  }
+  if (state === 'on_hold') {
+    return <Badge variant="outline" className={className}>Seats on hold</Badge>;
+  }
+  if (state === 'filling_fast') {
+    return <Badge variant="secondary" className={className}>Filling fast</Badge>;
+  }
+  return null;
+};
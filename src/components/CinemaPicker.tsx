@@ -0,0 +1,36 @@
+import { MapPin } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCinema } from '@/contexts/CinemaContext';
+
+// Radix Select items can't have an empty value, so "every location" gets its own
+const ALL = 'all';
+
+export const CinemaPicker = () => {
+  const { cinemas, cinemaId, setCinemaId } = useCinema();
+
+  // Nothing to choose between with a single venue
+  if (cinemas.length < 2) return null;
+
+  return (
+    <Select value={cinemaId ?? ALL} onValueChange={(value) => setCinemaId(value === ALL ? null : value)}>
+      <SelectTrigger className="h-9 w-48" aria-label="Cinema">
+        <MapPin className="w-4 h-4 mr-2 shrink-0 text-primary" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>All cinemas</SelectItem>
+        {cinemas.map((cinema) => (
+          <SelectItem key={cinema.id} value={cinema.id}>
+            {cinema.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,24 @@
+import { cn } from '@/lib/utils';
+
+interface ConcessionLinesProps {
+  lines: { id: string; name: string; quantity: number; unit_price: number }[];
+  className?: string;
+}
+
+// Add-ons bought with a booking, one line each; renders nothing when there are none
+export const ConcessionLines = ({ lines, className }: ConcessionLinesProps) => {
+  if (lines.length === 0) return null;
+
+  return (
+    <ul className={cn('space-y-1 text-sm', className)}>
+      {lines.map((line) => (
+        <li key={line.id} className="flex justify-between gap-4">
+          <span>
+            {line.quantity} × {line.name}
+          </span>
+          <span>${(line.quantity * Number(line.unit_price)).toFixed(2)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -1,6 +1,9 @@
 import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
 import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { Clock } from 'lucide-react';
+import { getPremiumFormats } from '@/lib/movieMetadata';
 
 interface MovieCardProps {
   id: string;
@@ -8,10 +11,24 @@ interface MovieCardProps {
   poster_url: string | null;
   genres: string[];
   duration: number;
+  certification?: string | null;
+  formats?: string[];
+  // Shown as an "Opens" badge, for movies that aren't out yet
+  release_date?: string | null;
 }
 
-export const MovieCard = ({ id, title, poster_url, genres, duration }: MovieCardProps) => {
+export const MovieCard = ({
+  id,
+  title,
+  poster_url,
+  genres,
+  duration,
+  certification,
+  formats = [],
+  release_date,
+}: MovieCardProps) => {
   const navigate = useNavigate();
+  const premiumFormats = getPremiumFormats(formats);
 
   return (
     <Card 
@@ -25,12 +42,27 @@ export const MovieCard = ({ id, title, poster_url, genres, duration }: MovieCard
           className="w-full h-full object-cover transition-transform group-hover:scale-110"
         />
         <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
+        {release_date && (
+          <Badge className="absolute top-2 left-2">Opens {format(parseISO(release_date), 'MMM d')}</Badge>
+        )}
+        {premiumFormats.length > 0 && (
+          <div className="absolute top-2 right-2 flex gap-1">
+            {premiumFormats.map((movieFormat) => (
+              <Badge key={movieFormat} variant="secondary">{movieFormat}</Badge>
+            ))}
+          </div>
+        )}
       </div>
       <div className="p-4">
         <h3 className="font-bold text-lg mb-2 line-clamp-1">{title}</h3>
         <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
           <Clock className="w-4 h-4" />
           <span>{duration} min</span>
+          {certification && (
+            <span className="ml-auto rounded border border-muted-foreground/50 px-1 text-xs font-semibold">
+              {certification}
+            </span>
+          )}
         </div>
         <div className="flex flex-wrap gap-2">
           {genres.slice(0, 2).map((genre) => (
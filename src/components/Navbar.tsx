@@ -1,10 +1,11 @@
 import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Film, LogOut, User, LayoutDashboard } from 'lucide-react';
+import { CalendarDays, Film, LogOut, User, LayoutDashboard, ScanLine } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { CinemaPicker } from '@/components/CinemaPicker';
 
 export const Navbar = () => {
-  const { user, signOut, isAdmin } = useAuth();
+  const { user, signOut, isAdmin, isStaff } = useAuth();
   const navigate = useNavigate();
 
   return (
@@ -19,8 +20,27 @@ export const Navbar = () => {
           </Link>
 
           <div className="flex items-center gap-4">
+            <CinemaPicker />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/showtimes')}
+            >
+              <CalendarDays className="w-4 h-4 mr-2" />
+              Showtimes
+            </Button>
             {user ? (
               <>
+                {isStaff && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => navigate('/checkin')}
+                  >
+                    <ScanLine className="w-4 h-4 mr-2" />
+                    Check-in
+                  </Button>
+                )}
                 {isAdmin && (
                   <Button
                     variant="ghost"
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { CameraOff } from 'lucide-react';
+
+// The same code stays in view for a while, so ignore repeats within this window
+const REPEAT_SCAN_MS = 3000;
+
+interface QrScannerProps {
+  onScan: (code: string) => void;
+  paused?: boolean;
+}
+
+export const QrScanner = ({ onScan, paused = false }: QrScannerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onScanRef = useRef(onScan);
+  const pausedRef = useRef(paused);
+  const [error, setError] = useState<string | null>(null);
+
+  onScanRef.current = onScan;
+  pausedRef.current = paused;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let cancelled = false;
+    let last = { code: '', at: 0 };
+
+    const tick = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (cancelled || !video || !canvas) return;
+
+      if (!pausedRef.current && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const result = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+
+        if (result?.data && (result.data !== last.code || Date.now() - last.at > REPEAT_SCAN_MS)) {
+          last = { code: result.data, at: Date.now() };
+          onScanRef.current(result.data);
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        frame = requestAnimationFrame(tick);
+      } catch {
+        setError('Camera unavailable. Allow camera access or enter the code manually.');
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-2 aspect-square rounded-lg border border-dashed border-border p-6 text-center">
+        <CameraOff className="w-8 h-8 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative aspect-square overflow-hidden rounded-lg bg-black">
+      <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+      <canvas ref={canvasRef} className="hidden" />
+      <div className="pointer-events-none absolute inset-[15%] rounded-lg border-2 border-primary/80" />
+    </div>
+  );
+};
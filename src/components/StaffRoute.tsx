@@ -0,0 +1,29 @@
+import { ReactNode } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Navbar } from '@/components/Navbar';
+import { useAuth } from '@/contexts/AuthContext';
+
+export const StaffRoute = ({ children }: { children: ReactNode }) => {
+  const { user, loading, isStaff } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container mx-auto px-4 py-12 text-center">
+          <p className="text-muted-foreground">Checking permissions...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isStaff) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children}</>;
+};
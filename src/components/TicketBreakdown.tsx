@@ -0,0 +1,32 @@
+import { cn } from '@/lib/utils';
+import { getSeatTypeStyle } from '@/lib/seatTypes';
+import { TicketBreakdownItem, getTicketCategoryLabel } from '@/lib/ticketCategories';
+
+interface TicketBreakdownProps {
+  items: TicketBreakdownItem[];
+  className?: string;
+}
+
+// One line per seat: what kind of ticket it is and what it cost.
+// Renders nothing for bookings made before ticket categories existed.
+export const TicketBreakdown = ({ items, className }: TicketBreakdownProps) => {
+  if (items.length === 0) return null;
+
+  return (
+    <ul className={cn('space-y-1 text-sm', className)}>
+      {items.map((item) => (
+        <li key={item.seat} className="flex justify-between gap-4">
+          <span>
+            <span className="font-medium">{item.seat}</span>
+            <span className="text-muted-foreground">
+              {' '}
+              · {getTicketCategoryLabel(item.category)}
+              {item.seat_type !== 'standard' && ` · ${getSeatTypeStyle(item.seat_type).label}`}
+            </span>
+          </span>
+          <span>${item.price.toFixed(2)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AspectRatio } from '@/components/ui/aspect-ratio';
+import { ExternalLink, VideoOff } from 'lucide-react';
+import { parseTrailerUrl } from '@/lib/trailers';
+
+interface TrailerDialogProps {
+  title: string;
+  url: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Closing the dialog unmounts the player, which stops playback
+export const TrailerDialog = ({ title, url, open, onOpenChange }: TrailerDialogProps) => {
+  const trailer = parseTrailerUrl(url);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (open) setFailed(false);
+  }, [open, url]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription className="sr-only">Trailer</DialogDescription>
+        </DialogHeader>
+        {trailer && !failed ? (
+          <AspectRatio ratio={16 / 9} className="bg-black rounded-md overflow-hidden">
+            {trailer.kind === 'video' ? (
+              <video
+                src={trailer.src}
+                className="w-full h-full"
+                controls
+                autoPlay
+                onError={() => setFailed(true)}
+              />
+            ) : (
+              <iframe
+                src={trailer.embedUrl}
+                title={`${title} trailer`}
+                className="w-full h-full"
+                allow="autoplay; fullscreen; picture-in-picture; encrypted-media"
+                allowFullScreen
+              />
+            )}
+          </AspectRatio>
+        ) : (
+          <div className="flex flex-col items-center gap-4 py-10 text-center">
+            <VideoOff className="w-10 h-10 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              {failed ? "This trailer couldn't be loaded." : "This trailer can't be played here."}
+            </p>
+            <Button asChild variant="outline">
+              <a href={url} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="w-4 h-4 mr-2" />
+                Open trailer
+              </a>
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
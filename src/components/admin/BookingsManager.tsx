@@ -0,0 +1,239 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ConfirmDeleteButton } from '@/components/admin/ConfirmDeleteButton';
+import { Ban, Search } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getBookingStatusVariant, getRefundAmount } from '@/lib/bookings';
+import { formatHallName } from '@/lib/cinemas';
+import { summarizeTicketCategories, toTicketBreakdown } from '@/lib/ticketCategories';
+
+type Booking = Tables<'bookings'> & {
+  profiles: { email: string; full_name: string | null };
+  showtimes: {
+    show_date: string;
+    show_time: string;
+    movies: { title: string };
+    theater_halls: { name: string; cinemas: { name: string } };
+  };
+};
+
+export const BookingsManager = () => {
+  const { toast } = useToast();
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [settings, setSettings] = useState<Tables<'app_settings'> | null>(null);
+
+  useEffect(() => {
+    fetchBookings();
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    const { data } = await supabase
+      .from('app_settings')
+      .select('*')
+      .maybeSingle();
+
+    setSettings(data);
+  };
+
+  const fetchBookings = async () => {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(`
+        *,
+        profiles (email, full_name),
+        showtimes (
+          show_date,
+          show_time,
+          movies (title),
+          theater_halls (name, cinemas (name))
+        )
+      `)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      toast({
+        title: 'Error loading bookings',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setBookings(data || []);
+    }
+    setLoading(false);
+  };
+
+  const handleCancel = async (id: string) => {
+    // Admins bypass the customer cancellation cutoff
+    const { data, error } = await supabase.rpc('cancel_booking', { _booking_id: id });
+
+    if (error) {
+      toast({
+        title: 'Could not cancel booking',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Booking cancelled',
+      description: `Refund of $${Number(data.refund_amount ?? 0).toFixed(2)} recorded.`,
+    });
+    fetchBookings();
+  };
+
+  const handleDelete = async (id: string) => {
+    // booked_seats rows cascade, so the seats become available again
+    const { error } = await supabase.from('bookings').delete().eq('id', id);
+
+    if (error) {
+      toast({
+        title: 'Could not delete booking',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Booking deleted' });
+    fetchBookings();
+  };
+
+  const term = searchTerm.toLowerCase();
+  const filteredBookings = bookings.filter(booking =>
+    !term ||
+    booking.profiles.email.toLowerCase().includes(term) ||
+    booking.showtimes.movies.title.toLowerCase().includes(term)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-xl font-semibold">Bookings</h2>
+        <div className="relative w-full max-w-xs">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by email or movie..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading bookings...</p>
+      ) : filteredBookings.length === 0 ? (
+        <p className="text-muted-foreground">No bookings found</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Customer</TableHead>
+              <TableHead>Movie</TableHead>
+              <TableHead>Showtime</TableHead>
+              <TableHead>Seats</TableHead>
+              <TableHead>Total</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredBookings.map((booking) => (
+              <TableRow key={booking.id}>
+                <TableCell>
+                  <div className="font-medium">{booking.profiles.full_name || booking.profiles.email}</div>
+                  <div className="text-xs text-muted-foreground">{booking.profiles.email}</div>
+                </TableCell>
+                <TableCell>{booking.showtimes.movies.title}</TableCell>
+                <TableCell>
+                  <div>{booking.showtimes.show_date} • {booking.showtimes.show_time.slice(0, 5)}</div>
+                  <div className="text-xs text-muted-foreground">{formatHallName(booking.showtimes.theater_halls)}</div>
+                </TableCell>
+                <TableCell>
+                  {booking.seats.join(', ')}
+                  <p className="text-xs text-muted-foreground">
+                    {summarizeTicketCategories(toTicketBreakdown(booking.ticket_breakdown))}
+                  </p>
+                </TableCell>
+                <TableCell>
+                  <div>${booking.total_price}</div>
+                  {booking.refund_amount !== null && (
+                    <div className="text-xs text-muted-foreground">Refunded ${booking.refund_amount}</div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={getBookingStatusVariant(booking.booking_status)}>
+                    {booking.booking_status}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end">
+                    {booking.booking_status === 'confirmed' && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label="Cancel booking">
+                            <Ban className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Cancel booking</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {booking.profiles.email}'s seats ({booking.seats.join(', ')}) will be released
+                              {settings
+                                ? ` and a refund of $${getRefundAmount(booking.total_price, settings.cancellation_refund_percent).toFixed(2)} (${settings.cancellation_refund_percent}% of $${Number(booking.total_price).toFixed(2)}) recorded`
+                                : ' and a refund recorded'}
+                              . This cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Keep Booking</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleCancel(booking.id)}>
+                              Cancel Booking
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                    <ConfirmDeleteButton
+                      title="Delete booking"
+                      description="The booking will be removed and its seats released for sale."
+                      onConfirm={() => handleDelete(booking.id)}
+                    />
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,272 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ConfirmDeleteButton } from '@/components/admin/ConfirmDeleteButton';
+import { Pencil, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+import { isValidTimeZone } from '@/lib/cinemas';
+import { z } from 'zod';
+
+type Cinema = Tables<'cinemas'> & { theater_halls: { count: number }[] };
+
+const optionalCoordinate = (min: number, max: number, label: string) =>
+  z.union([
+    z.literal('').transform(() => null),
+    z.coerce.number().min(min, `${label} must be between ${min} and ${max}`).max(max, `${label} must be between ${min} and ${max}`),
+  ]);
+
+const cinemaSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required'),
+    address: z.string().trim(),
+    timezone: z.string().trim().refine(isValidTimeZone, 'Enter a time zone such as Europe/London'),
+    latitude: optionalCoordinate(-90, 90, 'Latitude'),
+    longitude: optionalCoordinate(-180, 180, 'Longitude'),
+  })
+  .refine((cinema) => (cinema.latitude === null) === (cinema.longitude === null), {
+    message: 'Enter both latitude and longitude, or neither',
+  });
+
+const emptyForm = {
+  name: '',
+  address: '',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  latitude: '',
+  longitude: '',
+};
+
+export const CinemasManager = () => {
+  const { toast } = useToast();
+  const [cinemas, setCinemas] = useState<Cinema[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchCinemas();
+  }, []);
+
+  const fetchCinemas = async () => {
+    const { data, error } = await supabase
+      .from('cinemas')
+      .select('*, theater_halls(count)')
+      .order('name');
+
+    if (error) {
+      toast({
+        title: 'Error loading cinemas',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setCinemas(data || []);
+    }
+    setLoading(false);
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (cinema: Cinema) => {
+    setEditingId(cinema.id);
+    setForm({
+      name: cinema.name,
+      address: cinema.address ?? '',
+      timezone: cinema.timezone,
+      latitude: cinema.latitude === null ? '' : String(cinema.latitude),
+      longitude: cinema.longitude === null ? '' : String(cinema.longitude),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const parsed = cinemaSchema.parse(form);
+      const payload = {
+        name: parsed.name,
+        address: parsed.address || null,
+        timezone: parsed.timezone,
+        latitude: parsed.latitude,
+        longitude: parsed.longitude,
+      };
+
+      const { error } = editingId
+        ? await supabase.from('cinemas').update(payload).eq('id', editingId)
+        : await supabase.from('cinemas').insert(payload);
+
+      if (error?.code === '23505') throw new Error(`A cinema called ${parsed.name} already exists`);
+      if (error) throw error;
+
+      toast({ title: editingId ? 'Cinema updated' : 'Cinema created' });
+      setDialogOpen(false);
+      fetchCinemas();
+    } catch (error) {
+      toast({
+        title: 'Could not save cinema',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('cinemas').delete().eq('id', id);
+
+    if (error) {
+      toast({
+        title: 'Could not delete cinema',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Cinema deleted' });
+    fetchCinemas();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Cinemas</h2>
+        <Button onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Cinema
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading cinemas...</p>
+      ) : cinemas.length === 0 ? (
+        <p className="text-muted-foreground">No cinemas yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Address</TableHead>
+              <TableHead>Time zone</TableHead>
+              <TableHead>Halls</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {cinemas.map((cinema) => (
+              <TableRow key={cinema.id}>
+                <TableCell className="font-medium">{cinema.name}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">{cinema.address}</TableCell>
+                <TableCell>{cinema.timezone}</TableCell>
+                <TableCell>{cinema.theater_halls[0]?.count ?? 0}</TableCell>
+                <TableCell>
+                  <div className="flex justify-end">
+                    <Button variant="ghost" size="icon" onClick={() => openEdit(cinema)} aria-label="Edit cinema">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <ConfirmDeleteButton
+                      title="Delete cinema"
+                      description={`"${cinema.name}" and all of its halls, showtimes and bookings will be permanently removed.`}
+                      onConfirm={() => handleDelete(cinema.id)}
+                    />
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Cinema' : 'Add Cinema'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="cinema-name">Name</Label>
+              <Input
+                id="cinema-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cinema-address">Address</Label>
+              <Input
+                id="cinema-address"
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cinema-timezone">Time zone</Label>
+              <Input
+                id="cinema-timezone"
+                value={form.timezone}
+                onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                placeholder="Europe/London"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="cinema-latitude">Latitude</Label>
+                <Input
+                  id="cinema-latitude"
+                  type="number"
+                  step="any"
+                  value={form.latitude}
+                  onChange={(e) => setForm({ ...form, latitude: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cinema-longitude">Longitude</Label>
+                <Input
+                  id="cinema-longitude"
+                  type="number"
+                  step="any"
+                  value={form.longitude}
+                  onChange={(e) => setForm({ ...form, longitude: e.target.value })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
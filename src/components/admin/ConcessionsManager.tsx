@@ -0,0 +1,391 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ConfirmDeleteButton } from '@/components/admin/ConfirmDeleteButton';
+import { Pencil, Plus, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+import { ComboItem, Concession, describeCombo } from '@/lib/concessions';
+import { z } from 'zod';
+
+const concessionSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().trim(),
+  kind: z.enum(['item', 'combo']),
+  price: z.coerce.number().min(0, 'Price cannot be negative'),
+  stock: z.union([
+    z.literal('').transform(() => null),
+    z.coerce.number().int().min(0, 'Stock must be a whole number of zero or more'),
+  ]),
+});
+
+const comboItemsSchema = z
+  .array(
+    z.object({
+      item_id: z.string().min(1, 'Choose an item for every combo line'),
+      quantity: z.coerce.number().int().positive('Combo quantities must be whole numbers above zero'),
+    })
+  )
+  .min(1, 'A combo needs at least one item')
+  .refine(items => new Set(items.map(item => item.item_id)).size === items.length, {
+    message: 'Each item can only appear once in a combo',
+  });
+
+const emptyForm = {
+  name: '',
+  description: '',
+  kind: 'item',
+  price: '',
+  stock: '',
+  active: true,
+  combo_items: [] as { item_id: string; quantity: string }[],
+};
+
+export const ConcessionsManager = () => {
+  const { toast } = useToast();
+  const [concessions, setConcessions] = useState<Concession[]>([]);
+  const [comboItems, setComboItems] = useState<ComboItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchConcessions();
+  }, []);
+
+  const fetchConcessions = async () => {
+    const [{ data, error }, { data: combos }] = await Promise.all([
+      supabase.from('concessions').select('*').order('kind').order('name'),
+      supabase.from('concession_combo_items').select('combo_id, item_id, quantity'),
+    ]);
+
+    if (error) {
+      toast({
+        title: 'Error loading concessions',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setConcessions(data || []);
+      setComboItems(combos || []);
+    }
+    setLoading(false);
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (concession: Concession) => {
+    setEditingId(concession.id);
+    setForm({
+      name: concession.name,
+      description: concession.description ?? '',
+      kind: concession.kind,
+      price: String(concession.price),
+      stock: concession.stock === null ? '' : String(concession.stock),
+      active: concession.active,
+      combo_items: comboItems
+        .filter(item => item.combo_id === concession.id)
+        .map(item => ({ item_id: item.item_id, quantity: String(item.quantity) })),
+    });
+    setDialogOpen(true);
+  };
+
+  const updateComboItem = (index: number, changes: Partial<{ item_id: string; quantity: string }>) => {
+    setForm({
+      ...form,
+      combo_items: form.combo_items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const parsed = concessionSchema.parse(form);
+      const isCombo = parsed.kind === 'combo';
+      const contents = isCombo ? comboItemsSchema.parse(form.combo_items) : [];
+      const payload = {
+        name: parsed.name,
+        description: parsed.description || null,
+        kind: parsed.kind,
+        price: parsed.price,
+        // Combos sell from their items' stock
+        stock: isCombo ? null : parsed.stock,
+        active: form.active,
+      };
+
+      const { data, error } = editingId
+        ? await supabase.from('concessions').update(payload).eq('id', editingId).select('id').single()
+        : await supabase.from('concessions').insert(payload).select('id').single();
+
+      if (error) throw error;
+
+      const { error: clearError } = await supabase.from('concession_combo_items').delete().eq('combo_id', data.id);
+      if (clearError) throw clearError;
+
+      if (contents.length > 0) {
+        const { error: itemsError } = await supabase.from('concession_combo_items').insert(
+          contents.map(item => ({ combo_id: data.id, item_id: item.item_id, quantity: item.quantity }))
+        );
+        if (itemsError) throw itemsError;
+      }
+
+      toast({ title: editingId ? 'Concession updated' : 'Concession created' });
+      setDialogOpen(false);
+      fetchConcessions();
+    } catch (error) {
+      toast({
+        title: 'Could not save concession',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('concessions').delete().eq('id', id);
+
+    if (error) {
+      toast({
+        title: 'Could not delete concession',
+        description: error.code === '23503' ? 'This item is part of a combo. Remove it from the combo first.' : error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Concession deleted' });
+    fetchConcessions();
+  };
+
+  const concessionsById = new Map(concessions.map(concession => [concession.id, concession]));
+  const items = concessions.filter(concession => concession.kind === 'item' && concession.id !== editingId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Concessions</h2>
+        <Button onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Concession
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading concessions...</p>
+      ) : concessions.length === 0 ? (
+        <p className="text-muted-foreground">No concessions yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Price</TableHead>
+              <TableHead>Stock</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {concessions.map((concession) => (
+              <TableRow key={concession.id}>
+                <TableCell className="font-medium">
+                  {concession.name}
+                  {concession.kind === 'combo' && <Badge variant="secondary" className="ml-2">Combo</Badge>}
+                  {!concession.active && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                  {concession.description && (
+                    <p className="text-xs text-muted-foreground">{concession.description}</p>
+                  )}
+                </TableCell>
+                <TableCell>${Number(concession.price).toFixed(2)}</TableCell>
+                <TableCell className="text-sm">
+                  {concession.kind === 'combo' ? (
+                    <span className="text-muted-foreground">
+                      {describeCombo(concession.id, comboItems, concessionsById)}
+                    </span>
+                  ) : concession.stock === null ? (
+                    <span className="text-muted-foreground">Not tracked</span>
+                  ) : (
+                    concession.stock
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end">
+                    <Button variant="ghost" size="icon" onClick={() => openEdit(concession)} aria-label="Edit concession">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <ConfirmDeleteButton
+                      title="Delete concession"
+                      description="It will no longer be offered. Bookings that include it keep their line items."
+                      onConfirm={() => handleDelete(concession.id)}
+                    />
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Concession' : 'Add Concession'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="concession-name">Name</Label>
+              <Input
+                id="concession-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="concession-description">Description</Label>
+              <Input
+                id="concession-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={form.kind} onValueChange={(kind) => setForm({ ...form, kind })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="item">Item</SelectItem>
+                    <SelectItem value="combo">Combo</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="concession-price">Price ($)</Label>
+                <Input
+                  id="concession-price"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.price}
+                  onChange={(e) => setForm({ ...form, price: e.target.value })}
+                  required
+                />
+              </div>
+              {form.kind === 'item' && (
+                <div className="space-y-2">
+                  <Label htmlFor="concession-stock">Stock</Label>
+                  <Input
+                    id="concession-stock"
+                    type="number"
+                    min={0}
+                    value={form.stock}
+                    onChange={(e) => setForm({ ...form, stock: e.target.value })}
+                    placeholder="Not tracked"
+                  />
+                </div>
+              )}
+            </div>
+            {form.kind === 'combo' && (
+              <div className="space-y-2">
+                <Label>Combo contents</Label>
+                {form.combo_items.map((item, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select value={item.item_id} onValueChange={(item_id) => updateComboItem(index, { item_id })}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Select an item" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {items.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-20"
+                      value={item.quantity}
+                      onChange={(e) => updateComboItem(index, { quantity: e.target.value })}
+                      aria-label="Quantity"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setForm({ ...form, combo_items: form.combo_items.filter((_, i) => i !== index) })}
+                      aria-label="Remove item"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm({ ...form, combo_items: [...form.combo_items, { item_id: '', quantity: '1' }] })}
+                  disabled={items.length === 0}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Item
+                </Button>
+                <p className="text-xs text-muted-foreground">Selling a combo takes stock from these items.</p>
+              </div>
+            )}
+            <div className="flex items-center gap-3">
+              <Switch
+                id="concession-active"
+                checked={form.active}
+                onCheckedChange={(active) => setForm({ ...form, active })}
+              />
+              <Label htmlFor="concession-active">Offered to customers</Label>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,351 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ConfirmDeleteButton } from '@/components/admin/ConfirmDeleteButton';
+import { SeatTypePriceFields } from '@/components/admin/SeatTypePriceFields';
+import { SeatMapEditor } from '@/components/admin/SeatMapEditor';
+import { Pencil, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+import { fromPriceInputs, toPriceInputs, toSeatPriceMap } from '@/lib/seatTypes';
+import {
+  createGridLayout,
+  getLayoutDimensions,
+  getLayoutSeats,
+  parseSeatLayout,
+  safeParseSeatLayout,
+} from '@/lib/seatLayout';
+import { z } from 'zod';
+
+type Hall = Tables<'theater_halls'> & { cinemas: { name: string } };
+
+const hallSchema = z.object({
+  cinema_id: z.string().min(1, 'Choose a cinema'),
+  name: z.string().trim().min(1, 'Name is required'),
+});
+
+const gridSchema = z.object({
+  rows: z.coerce.number().int().min(1, 'Rows must be at least 1').max(26, 'Rows cannot exceed 26'),
+  columns: z.coerce.number().int().min(1, 'Columns must be at least 1').max(40, 'Columns cannot exceed 40'),
+});
+
+const defaultMultipliers = { standard: 1, premium: 1.5, recliner: 2, wheelchair: 1, companion: 1 };
+
+const emptyForm = {
+  cinema_id: '',
+  name: '',
+  rows: '8',
+  columns: '10',
+  seat_layout: createGridLayout(8, 10),
+  seat_type_multipliers: toPriceInputs(defaultMultipliers),
+};
+
+const seatCount = (hall: Hall) => {
+  const { layout } = safeParseSeatLayout(hall.seat_layout);
+  return layout
+    ? getLayoutSeats(layout).filter(seat => !seat.disabled).length
+    : <Badge variant="destructive">Invalid layout</Badge>;
+};
+
+export const HallsManager = () => {
+  const { toast } = useToast();
+  const [halls, setHalls] = useState<Hall[]>([]);
+  const [cinemas, setCinemas] = useState<Pick<Tables<'cinemas'>, 'id' | 'name'>[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchHalls();
+    fetchCinemas();
+  }, []);
+
+  const fetchCinemas = async () => {
+    const { data } = await supabase.from('cinemas').select('id, name').order('name');
+    setCinemas(data || []);
+  };
+
+  const fetchHalls = async () => {
+    const { data, error } = await supabase
+      .from('theater_halls')
+      .select('*, cinemas(name)')
+      .order('name');
+
+    if (error) {
+      toast({
+        title: 'Error loading halls',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setHalls(data || []);
+    }
+    setLoading(false);
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    // Most setups have one cinema, so start with it chosen
+    setForm({ ...emptyForm, cinema_id: cinemas.length === 1 ? cinemas[0].id : '' });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (hall: Hall) => {
+    const { layout, error } = safeParseSeatLayout(hall.seat_layout);
+    if (error) {
+      toast({
+        title: 'Stored seat map is invalid',
+        description: `${error}. Starting from a fresh grid.`,
+        variant: 'destructive',
+      });
+    }
+
+    setEditingId(hall.id);
+    setForm({
+      cinema_id: hall.cinema_id,
+      name: hall.name,
+      rows: String(hall.rows),
+      columns: String(hall.columns),
+      // Legacy rectangular layouts are upgraded to the v2 format on save
+      seat_layout: layout ?? createGridLayout(hall.rows, hall.columns),
+      seat_type_multipliers: toPriceInputs(toSeatPriceMap(hall.seat_type_multipliers)),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleGenerateLayout = () => {
+    try {
+      const { rows, columns } = gridSchema.parse(form);
+      setForm({ ...form, seat_layout: createGridLayout(rows, columns) });
+    } catch (error) {
+      toast({
+        title: 'Invalid grid size',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const parsed = hallSchema.parse(form);
+      const layout = parseSeatLayout(form.seat_layout);
+      const { rows, columns } = getLayoutDimensions(layout);
+      const payload = {
+        cinema_id: parsed.cinema_id,
+        name: parsed.name,
+        rows,
+        columns,
+        seat_layout: layout as unknown as Json,
+        seat_type_multipliers: fromPriceInputs(form.seat_type_multipliers),
+      };
+
+      const { error } = editingId
+        ? await supabase.from('theater_halls').update(payload).eq('id', editingId)
+        : await supabase.from('theater_halls').insert(payload);
+
+      if (error?.code === '23505') throw new Error(`This cinema already has a hall called ${parsed.name}`);
+      if (error) throw error;
+
+      toast({ title: editingId ? 'Hall updated' : 'Hall created' });
+      setDialogOpen(false);
+      fetchHalls();
+    } catch (error) {
+      toast({
+        title: 'Could not save hall',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('theater_halls').delete().eq('id', id);
+
+    if (error) {
+      toast({
+        title: 'Could not delete hall',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Hall deleted' });
+    fetchHalls();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Theater Halls</h2>
+        <Button onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Hall
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading halls...</p>
+      ) : halls.length === 0 ? (
+        <p className="text-muted-foreground">No halls yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Cinema</TableHead>
+              <TableHead>Rows</TableHead>
+              <TableHead>Columns</TableHead>
+              <TableHead>Seats</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {halls.map((hall) => (
+              <TableRow key={hall.id}>
+                <TableCell className="font-medium">{hall.name}</TableCell>
+                <TableCell>{hall.cinemas.name}</TableCell>
+                <TableCell>{hall.rows}</TableCell>
+                <TableCell>{hall.columns}</TableCell>
+                <TableCell>{seatCount(hall)}</TableCell>
+                <TableCell>
+                  <div className="flex justify-end">
+                    <Button variant="ghost" size="icon" onClick={() => openEdit(hall)} aria-label="Edit hall">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <ConfirmDeleteButton
+                      title="Delete hall"
+                      description={`"${hall.name}" and all of its showtimes and bookings will be permanently removed.`}
+                      onConfirm={() => handleDelete(hall.id)}
+                    />
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Hall' : 'Add Hall'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Cinema</Label>
+                <Select value={form.cinema_id} onValueChange={(cinema_id) => setForm({ ...form, cinema_id })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a cinema" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {cinemas.map((cinema) => (
+                      <SelectItem key={cinema.id} value={cinema.id}>{cinema.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="hall-name">Name</Label>
+                <Input
+                  id="hall-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="hall-rows">Rows</Label>
+                <Input
+                  id="hall-rows"
+                  type="number"
+                  min={1}
+                  max={26}
+                  className="w-24"
+                  value={form.rows}
+                  onChange={(e) => setForm({ ...form, rows: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="hall-columns">Columns</Label>
+                <Input
+                  id="hall-columns"
+                  type="number"
+                  min={1}
+                  max={40}
+                  className="w-24"
+                  value={form.columns}
+                  onChange={(e) => setForm({ ...form, columns: e.target.value })}
+                />
+              </div>
+              <Button type="button" variant="outline" onClick={handleGenerateLayout}>
+                Start from grid
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <Label>Seat map</Label>
+              <SeatMapEditor
+                value={form.seat_layout}
+                onChange={(seat_layout) => setForm({ ...form, seat_layout })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Price multipliers by seat type</Label>
+              <SeatTypePriceFields
+                idPrefix="hall-multiplier"
+                values={form.seat_type_multipliers}
+                onChange={(values) => setForm({ ...form, seat_type_multipliers: values })}
+                placeholder="1"
+              />
+              <p className="text-xs text-muted-foreground">
+                Seats cost the showtime's base price times their type's multiplier.
+              </p>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,568 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ConfirmDeleteButton } from '@/components/admin/ConfirmDeleteButton';
+import { MovieCard } from '@/components/MovieCard';
+import { ImageOff, Pencil, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+import { POSTER_SIZES, PosterImages, removePoster, resizePoster, uploadPoster } from '@/lib/posters';
+import { parseTrailerUrl } from '@/lib/trailers';
+import { CERTIFICATIONS, LANGUAGE_CODE, MOVIE_FORMATS } from '@/lib/movieMetadata';
+import { z } from 'zod';
+
+type Movie = Tables<'movies'>;
+
+const optionalUrl = z.string().trim().url('Must be a valid URL').or(z.literal(''));
+
+// Posters may also be site-relative paths, like the ones bundled with the app ("//" would be another host)
+const optionalPosterUrl = z
+  .string()
+  .trim()
+  .refine(url => !url || /^\/(?!\/)/.test(url) || z.string().url().safeParse(url).success, {
+    message: 'Must be a valid URL or a path starting with /',
+  });
+
+const movieSchema = z
+  .object({
+    title: z.string().trim().min(1, 'Title is required'),
+    description: z.string().trim(),
+    poster_url: optionalPosterUrl,
+    trailer_url: optionalUrl.refine(url => !url || parseTrailerUrl(url) !== null, {
+      message: 'Trailer must be a YouTube or Vimeo link, or a video file (.mp4, .webm, ...)',
+    }),
+    duration: z.coerce.number().int().positive('Duration must be a positive number of minutes'),
+    genres: z.string().trim().min(1, 'At least one genre is required'),
+    release_date: z.string(),
+    end_date: z.string(),
+    certification: z.enum(CERTIFICATIONS).or(z.literal('')),
+    original_language: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .refine(code => !code || LANGUAGE_CODE.test(code), 'Use a language code such as en or fr'),
+    subtitles: z
+      .string()
+      .toLowerCase()
+      .refine(codes => parseList(codes).every(code => LANGUAGE_CODE.test(code)), 'Use language codes such as en, fr'),
+    director: z.string().trim(),
+    cast_members: z.string(),
+    release_year: z
+      .string()
+      .trim()
+      .refine(year => !year || (/^\d{4}$/.test(year) && Number(year) >= 1888 && Number(year) <= 2100), {
+        message: 'Enter a year between 1888 and 2100',
+      }),
+    formats: z.array(z.enum(MOVIE_FORMATS)).min(1, 'Pick at least one format'),
+  })
+  .refine((movie) => !movie.release_date || !movie.end_date || movie.end_date >= movie.release_date, {
+    message: 'The run must end on or after the release date',
+    path: ['end_date'],
+  });
+
+const formatRunDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+const formatRun = (movie: Movie) => {
+  if (movie.release_date && movie.end_date) return `${formatRunDate(movie.release_date)} – ${formatRunDate(movie.end_date)}`;
+  if (movie.release_date) return `From ${formatRunDate(movie.release_date)}`;
+  if (movie.end_date) return `Until ${formatRunDate(movie.end_date)}`;
+  return '—';
+};
+
+// Genres, cast and subtitles are all edited as comma-separated lists
+const parseList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const emptyForm = {
+  title: '',
+  description: '',
+  poster_url: '',
+  trailer_url: '',
+  duration: '',
+  genres: '',
+  release_date: '',
+  end_date: '',
+  certification: '',
+  original_language: '',
+  subtitles: '',
+  director: '',
+  cast_members: '',
+  release_year: '',
+  formats: ['2D'] as string[],
+};
+
+export const MoviesManager = () => {
+  const { toast } = useToast();
+  const [movies, setMovies] = useState<Movie[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  // A chosen file, already resized, waiting to be uploaded on save
+  const [poster, setPoster] = useState<{ images: PosterImages; previewUrl: string } | null>(null);
+  const [processingPoster, setProcessingPoster] = useState(false);
+
+  useEffect(() => {
+    fetchMovies();
+  }, []);
+
+  useEffect(() => () => {
+    if (poster) URL.revokeObjectURL(poster.previewUrl);
+  }, [poster]);
+
+  const fetchMovies = async () => {
+    const { data, error } = await supabase
+      .from('movies')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      toast({
+        title: 'Error loading movies',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setMovies(data || []);
+    }
+    setLoading(false);
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setPoster(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (movie: Movie) => {
+    setEditingId(movie.id);
+    setForm({
+      title: movie.title,
+      description: movie.description ?? '',
+      poster_url: movie.poster_url ?? '',
+      trailer_url: movie.trailer_url ?? '',
+      duration: String(movie.duration),
+      genres: movie.genres.join(', '),
+      release_date: movie.release_date ?? '',
+      end_date: movie.end_date ?? '',
+      certification: movie.certification ?? '',
+      original_language: movie.original_language ?? '',
+      subtitles: movie.subtitles.join(', '),
+      director: movie.director ?? '',
+      cast_members: movie.cast_members.join(', '),
+      release_year: movie.release_year ? String(movie.release_year) : '',
+      formats: movie.formats,
+    });
+    setPoster(null);
+    setDialogOpen(true);
+  };
+
+  const handlePosterFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setProcessingPoster(true);
+    try {
+      const images = await resizePoster(file);
+      setPoster({ images, previewUrl: URL.createObjectURL(images.card) });
+      setForm(prev => ({ ...prev, poster_url: '' }));
+    } catch (error) {
+      toast({
+        title: 'Could not use that image',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessingPoster(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    let uploaded: Awaited<ReturnType<typeof uploadPoster>> | null = null;
+    try {
+      const parsed = movieSchema.parse(form);
+      const existing = movies.find(movie => movie.id === editingId);
+      const keepsPoster = !poster && !!existing && (existing.poster_url ?? '') === parsed.poster_url;
+
+      uploaded = poster ? await uploadPoster(poster.images) : null;
+      const posterFields = uploaded ?? (keepsPoster
+        ? {}
+        : { poster_path: null, poster_thumbnail_url: null, poster_url: parsed.poster_url || null, poster_hero_url: null });
+
+      const payload = {
+        title: parsed.title,
+        description: parsed.description || null,
+        trailer_url: parsed.trailer_url || null,
+        duration: parsed.duration,
+        genres: parseList(parsed.genres),
+        release_date: parsed.release_date || null,
+        end_date: parsed.end_date || null,
+        certification: parsed.certification || null,
+        original_language: parsed.original_language || null,
+        subtitles: parseList(parsed.subtitles),
+        director: parsed.director || null,
+        cast_members: parseList(parsed.cast_members),
+        release_year: parsed.release_year ? Number(parsed.release_year) : null,
+        formats: parsed.formats,
+        ...posterFields,
+      };
+
+      const { error } = editingId
+        ? await supabase.from('movies').update(payload).eq('id', editingId)
+        : await supabase.from('movies').insert(payload);
+
+      if (error) throw error;
+
+      if (existing && !keepsPoster) removePoster(existing.poster_path);
+
+      toast({ title: editingId ? 'Movie updated' : 'Movie created' });
+      setDialogOpen(false);
+      fetchMovies();
+    } catch (error) {
+      if (uploaded) removePoster(uploaded.poster_path);
+      toast({
+        title: 'Could not save movie',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (movie: Movie) => {
+    const { error } = await supabase.from('movies').delete().eq('id', movie.id);
+
+    if (error) {
+      toast({
+        title: 'Could not delete movie',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    removePoster(movie.poster_path);
+    toast({ title: 'Movie deleted' });
+    fetchMovies();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Movies</h2>
+        <Button onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Movie
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading movies...</p>
+      ) : movies.length === 0 ? (
+        <p className="text-muted-foreground">No movies yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-14" />
+              <TableHead>Title</TableHead>
+              <TableHead>Duration</TableHead>
+              <TableHead>Genres</TableHead>
+              <TableHead>Run</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {movies.map((movie) => (
+              <TableRow key={movie.id}>
+                <TableCell>
+                  {movie.poster_thumbnail_url || movie.poster_url ? (
+                    <img
+                      src={movie.poster_thumbnail_url || movie.poster_url}
+                      alt=""
+                      className="w-10 aspect-[2/3] rounded object-cover"
+                    />
+                  ) : (
+                    <div className="w-10 aspect-[2/3] rounded bg-muted flex items-center justify-center">
+                      <ImageOff className="w-4 h-4 text-muted-foreground" />
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="font-medium">{movie.title}</TableCell>
+                <TableCell>{movie.duration} min</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {movie.genres.map((genre) => (
+                      <Badge key={genre} variant="secondary">{genre}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-muted-foreground whitespace-nowrap">
+                  {formatRun(movie)}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end">
+                    <Button variant="ghost" size="icon" onClick={() => openEdit(movie)} aria-label="Edit movie">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <ConfirmDeleteButton
+                      title="Delete movie"
+                      description={`"${movie.title}" and all of its showtimes and bookings will be permanently removed.`}
+                      onConfirm={() => handleDelete(movie)}
+                    />
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Movie' : 'Add Movie'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid md:grid-cols-[1fr_12rem] gap-6">
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="movie-title">Title</Label>
+                  <Input
+                    id="movie-title"
+                    value={form.title}
+                    onChange={(e) => setForm({ ...form, title: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="movie-description">Description</Label>
+                  <Textarea
+                    id="movie-description"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="movie-duration">Duration (min)</Label>
+                    <Input
+                      id="movie-duration"
+                      type="number"
+                      min={1}
+                      value={form.duration}
+                      onChange={(e) => setForm({ ...form, duration: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="movie-genres">Genres</Label>
+                    <Input
+                      id="movie-genres"
+                      placeholder="Action, Drama"
+                      value={form.genres}
+                      onChange={(e) => setForm({ ...form, genres: e.target.value })}
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="movie-director">Director</Label>
+                    <Input
+                      id="movie-director"
+                      value={form.director}
+                      onChange={(e) => setForm({ ...form, director: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="movie-release-year">Year</Label>
+                    <Input
+                      id="movie-release-year"
+                      type="number"
+                      min={1888}
+                      max={2100}
+                      value={form.release_year}
+                      onChange={(e) => setForm({ ...form, release_year: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="movie-cast">Cast</Label>
+                  <Input
+                    id="movie-cast"
+                    placeholder="Lead actor, Supporting actor"
+                    value={form.cast_members}
+                    onChange={(e) => setForm({ ...form, cast_members: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="movie-certification">Certification</Label>
+                    <Select
+                      value={form.certification || 'unrated'}
+                      onValueChange={(value) => setForm({ ...form, certification: value === 'unrated' ? '' : value })}
+                    >
+                      <SelectTrigger id="movie-certification">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="unrated">Not rated</SelectItem>
+                        {CERTIFICATIONS.map((certification) => (
+                          <SelectItem key={certification} value={certification}>{certification}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="movie-language">Language</Label>
+                    <Input
+                      id="movie-language"
+                      placeholder="en"
+                      value={form.original_language}
+                      onChange={(e) => setForm({ ...form, original_language: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="movie-subtitles">Subtitles</Label>
+                    <Input
+                      id="movie-subtitles"
+                      placeholder="en, fr"
+                      value={form.subtitles}
+                      onChange={(e) => setForm({ ...form, subtitles: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Formats</Label>
+                  <ToggleGroup
+                    type="multiple"
+                    value={form.formats}
+                    onValueChange={(formats) => setForm({ ...form, formats })}
+                    className="justify-start"
+                    variant="outline"
+                    size="sm"
+                  >
+                    {MOVIE_FORMATS.map((movieFormat) => (
+                      <ToggleGroupItem key={movieFormat} value={movieFormat}>{movieFormat}</ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="movie-release-date">Release date</Label>
+                    <Input
+                      id="movie-release-date"
+                      type="date"
+                      value={form.release_date}
+                      onChange={(e) => setForm({ ...form, release_date: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="movie-end-date">End of run</Label>
+                    <Input
+                      id="movie-end-date"
+                      type="date"
+                      min={form.release_date || undefined}
+                      value={form.end_date}
+                      onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="movie-poster-file">Poster</Label>
+                  <Input
+                    id="movie-poster-file"
+                    type="file"
+                    accept="image/*"
+                    onChange={handlePosterFile}
+                    disabled={processingPoster}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Cropped to 2:3 and saved at {Object.values(POSTER_SIZES).join(', ')} px wide for thumbnails,
+                    cards and the movie page.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="movie-poster">Or poster URL</Label>
+                  <Input
+                    id="movie-poster"
+                    value={form.poster_url}
+                    placeholder={poster ? 'Using the uploaded image' : ''}
+                    onChange={(e) => {
+                      setPoster(null);
+                      setForm({ ...form, poster_url: e.target.value });
+                    }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="movie-trailer">Trailer URL</Label>
+                  <Input
+                    id="movie-trailer"
+                    value={form.trailer_url}
+                    onChange={(e) => setForm({ ...form, trailer_url: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Preview</Label>
+                <div className="pointer-events-none" aria-hidden>
+                  <MovieCard
+                    id={editingId ?? 'preview'}
+                    title={form.title || 'Untitled'}
+                    poster_url={poster?.previewUrl ?? form.poster_url}
+                    genres={parseList(form.genres)}
+                    duration={Number(form.duration) || 0}
+                    certification={form.certification}
+                    formats={form.formats}
+                  />
+                </div>
+                {processingPoster && <p className="text-xs text-muted-foreground">Resizing poster...</p>}
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving || processingPoster}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
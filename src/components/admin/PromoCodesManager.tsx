@@ -0,0 +1,466 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ConfirmDeleteButton } from '@/components/admin/ConfirmDeleteButton';
+import { Pencil, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+import { z } from 'zod';
+
+type PromoCode = Tables<'promo_codes'> & {
+  movies: { title: string } | null;
+  showtimes: { show_date: string; show_time: string } | null;
+};
+
+type ShowtimeOption = Pick<Tables<'showtimes'>, 'id' | 'movie_id' | 'show_date' | 'show_time'> & {
+  movies: { title: string };
+};
+
+// Radix Select items can't have an empty value, so "no restriction" gets its own
+const ANY = 'any';
+
+const optionalCount = z.union([
+  z.literal('').transform(() => null),
+  z.coerce.number().int().positive('Limits must be a positive whole number'),
+]);
+
+const promoSchema = z
+  .object({
+    code: z.string().trim().min(1, 'Code is required').transform(code => code.toUpperCase()),
+    description: z.string().trim(),
+    discount_type: z.enum(['percent', 'fixed']),
+    discount_value: z.coerce.number().positive('Discount must be greater than zero'),
+    max_uses: optionalCount,
+    max_uses_per_user: optionalCount,
+    valid_from: z.string(),
+    valid_until: z.string(),
+  })
+  .refine((promo) => promo.discount_type !== 'percent' || promo.discount_value <= 100, {
+    message: 'A percentage discount cannot exceed 100%',
+  })
+  .refine((promo) => !promo.valid_from || !promo.valid_until || promo.valid_until > promo.valid_from, {
+    message: 'The code must end after it starts',
+  });
+
+const emptyForm = {
+  code: '',
+  description: '',
+  discount_type: 'percent',
+  discount_value: '',
+  movie_id: ANY,
+  showtime_id: ANY,
+  max_uses: '',
+  max_uses_per_user: '',
+  valid_from: '',
+  valid_until: '',
+  active: true,
+};
+
+const toDateTimeInput = (value: string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '');
+
+const fromDateTimeInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const formatDiscount = (promo: Pick<PromoCode, 'discount_type' | 'discount_value'>) =>
+  promo.discount_type === 'percent' ? `${promo.discount_value}%` : `$${Number(promo.discount_value).toFixed(2)}`;
+
+export const PromoCodesManager = () => {
+  const { toast } = useToast();
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [usage, setUsage] = useState<Record<string, { uses: number; discount: number }>>({});
+  const [movies, setMovies] = useState<Pick<Tables<'movies'>, 'id' | 'title'>[]>([]);
+  const [showtimes, setShowtimes] = useState<ShowtimeOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPromoCodes();
+    fetchOptions();
+  }, []);
+
+  const fetchPromoCodes = async () => {
+    const [{ data, error }, { data: redemptions }] = await Promise.all([
+      supabase
+        .from('promo_codes')
+        .select('*, movies(title), showtimes(show_date, show_time)')
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('bookings')
+        .select('promo_code_id, booking_status, discount_amount')
+        .not('promo_code_id', 'is', null),
+    ]);
+
+    if (error) {
+      toast({
+        title: 'Error loading promo codes',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setPromoCodes(data || []);
+    }
+
+    // Mirrors the usage caps: failed and cancelled bookings don't use up a code
+    const totals: Record<string, { uses: number; discount: number }> = {};
+    for (const booking of redemptions || []) {
+      if (booking.booking_status !== 'pending' && booking.booking_status !== 'confirmed') continue;
+      const total = (totals[booking.promo_code_id] ??= { uses: 0, discount: 0 });
+      total.uses += 1;
+      if (booking.booking_status === 'confirmed') total.discount += Number(booking.discount_amount);
+    }
+    setUsage(totals);
+    setLoading(false);
+  };
+
+  const fetchOptions = async () => {
+    const [{ data: movieData }, { data: showtimeData }] = await Promise.all([
+      supabase.from('movies').select('id, title').order('title'),
+      supabase
+        .from('showtimes')
+        .select('id, movie_id, show_date, show_time, movies(title)')
+        .gt('starts_at', new Date().toISOString())
+        .order('show_date')
+        .order('show_time'),
+    ]);
+    setMovies(movieData || []);
+    setShowtimes(showtimeData || []);
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (promo: PromoCode) => {
+    setEditingId(promo.id);
+    setForm({
+      code: promo.code,
+      description: promo.description ?? '',
+      discount_type: promo.discount_type,
+      discount_value: String(promo.discount_value),
+      movie_id: promo.movie_id ?? ANY,
+      showtime_id: promo.showtime_id ?? ANY,
+      max_uses: promo.max_uses === null ? '' : String(promo.max_uses),
+      max_uses_per_user: promo.max_uses_per_user === null ? '' : String(promo.max_uses_per_user),
+      valid_from: toDateTimeInput(promo.valid_from),
+      valid_until: toDateTimeInput(promo.valid_until),
+      active: promo.active,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const parsed = promoSchema.parse(form);
+      const payload = {
+        code: parsed.code,
+        description: parsed.description || null,
+        discount_type: parsed.discount_type,
+        discount_value: parsed.discount_value,
+        movie_id: form.movie_id === ANY ? null : form.movie_id,
+        showtime_id: form.showtime_id === ANY ? null : form.showtime_id,
+        max_uses: parsed.max_uses,
+        max_uses_per_user: parsed.max_uses_per_user,
+        valid_from: fromDateTimeInput(parsed.valid_from),
+        valid_until: fromDateTimeInput(parsed.valid_until),
+        active: form.active,
+      };
+
+      const { error } = editingId
+        ? await supabase.from('promo_codes').update(payload).eq('id', editingId)
+        : await supabase.from('promo_codes').insert(payload);
+
+      if (error?.code === '23505') throw new Error(`The code ${parsed.code} already exists`);
+      if (error) throw error;
+
+      toast({ title: editingId ? 'Promo code updated' : 'Promo code created' });
+      setDialogOpen(false);
+      fetchPromoCodes();
+    } catch (error) {
+      toast({
+        title: 'Could not save promo code',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('promo_codes').delete().eq('id', id);
+
+    if (error) {
+      toast({
+        title: 'Could not delete promo code',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Promo code deleted' });
+    fetchPromoCodes();
+  };
+
+  const scopeLabel = (promo: PromoCode) => {
+    if (promo.showtimes) return `${promo.movies?.title ?? 'Showtime'} · ${promo.showtimes.show_date} ${promo.showtimes.show_time.slice(0, 5)}`;
+    if (promo.movies) return promo.movies.title;
+    return 'All showtimes';
+  };
+
+  const showtimeOptions = showtimes.filter(
+    showtime => form.movie_id === ANY || showtime.movie_id === form.movie_id
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Promo Codes</h2>
+        <Button onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Promo Code
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading promo codes...</p>
+      ) : promoCodes.length === 0 ? (
+        <p className="text-muted-foreground">No promo codes yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Discount</TableHead>
+              <TableHead>Applies to</TableHead>
+              <TableHead>Valid</TableHead>
+              <TableHead>Uses</TableHead>
+              <TableHead>Discount given</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {promoCodes.map((promo) => (
+              <TableRow key={promo.id}>
+                <TableCell className="font-medium">
+                  {promo.code}
+                  {!promo.active && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                  {promo.description && <p className="text-xs text-muted-foreground">{promo.description}</p>}
+                </TableCell>
+                <TableCell>{formatDiscount(promo)}</TableCell>
+                <TableCell>{scopeLabel(promo)}</TableCell>
+                <TableCell className="text-sm">
+                  {promo.valid_from || promo.valid_until
+                    ? `${promo.valid_from ? format(new Date(promo.valid_from), 'MMM d') : '…'} – ${
+                        promo.valid_until ? format(new Date(promo.valid_until), 'MMM d') : '…'
+                      }`
+                    : 'Always'}
+                </TableCell>
+                <TableCell>
+                  {usage[promo.id]?.uses ?? 0}
+                  {promo.max_uses !== null && ` / ${promo.max_uses}`}
+                </TableCell>
+                <TableCell>${(usage[promo.id]?.discount ?? 0).toFixed(2)}</TableCell>
+                <TableCell>
+                  <div className="flex justify-end">
+                    <Button variant="ghost" size="icon" onClick={() => openEdit(promo)} aria-label="Edit promo code">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <ConfirmDeleteButton
+                      title="Delete promo code"
+                      description="The code stops working immediately. Bookings that used it keep their discount."
+                      onConfirm={() => handleDelete(promo.id)}
+                    />
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Promo Code' : 'Add Promo Code'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-code">Code</Label>
+                <Input
+                  id="promo-code"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-description">Description</Label>
+                <Input
+                  id="promo-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="Shown to customers"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Discount type</Label>
+                <Select value={form.discount_type} onValueChange={(value) => setForm({ ...form, discount_type: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percentage</SelectItem>
+                    <SelectItem value="fixed">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-value">{form.discount_type === 'percent' ? 'Percent off' : 'Amount off ($)'}</Label>
+                <Input
+                  id="promo-value"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.discount_value}
+                  onChange={(e) => setForm({ ...form, discount_value: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Movie</Label>
+                <Select
+                  value={form.movie_id}
+                  onValueChange={(value) => setForm({ ...form, movie_id: value, showtime_id: ANY })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any movie</SelectItem>
+                    {movies.map((movie) => (
+                      <SelectItem key={movie.id} value={movie.id}>{movie.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Showtime</Label>
+                <Select value={form.showtime_id} onValueChange={(value) => setForm({ ...form, showtime_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any showtime</SelectItem>
+                    {showtimeOptions.map((showtime) => (
+                      <SelectItem key={showtime.id} value={showtime.id}>
+                        {showtime.movies.title} · {showtime.show_date} {showtime.show_time.slice(0, 5)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-max-uses">Total uses</Label>
+                <Input
+                  id="promo-max-uses"
+                  type="number"
+                  min={1}
+                  value={form.max_uses}
+                  onChange={(e) => setForm({ ...form, max_uses: e.target.value })}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-max-uses-per-user">Uses per customer</Label>
+                <Input
+                  id="promo-max-uses-per-user"
+                  type="number"
+                  min={1}
+                  value={form.max_uses_per_user}
+                  onChange={(e) => setForm({ ...form, max_uses_per_user: e.target.value })}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-valid-from">Valid from</Label>
+                <Input
+                  id="promo-valid-from"
+                  type="datetime-local"
+                  value={form.valid_from}
+                  onChange={(e) => setForm({ ...form, valid_from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-valid-until">Valid until</Label>
+                <Input
+                  id="promo-valid-until"
+                  type="datetime-local"
+                  value={form.valid_until}
+                  onChange={(e) => setForm({ ...form, valid_until: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch
+                id="promo-active"
+                checked={form.active}
+                onCheckedChange={(active) => setForm({ ...form, active })}
+              />
+              <Label htmlFor="promo-active">Active</Label>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,317 @@
+import { useEffect, useRef, useState } from 'react';
+import { addMinutes, addWeeks, differenceInMinutes, format, startOfDay } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, GripVertical } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ScheduleBlock,
+  findScheduleConflict,
+  getDaySegment,
+  getWeekDays,
+  parseScheduleTime,
+  snapMinutes,
+  toDateValue,
+  toScheduleBlock,
+  toTimeValue,
+} from '@/lib/schedule';
+import { getVenueToday } from '@/lib/venueTime';
+
+const PX_PER_MINUTE = 0.8;
+const DAY_HEIGHT = 24 * 60 * PX_PER_MINUTE;
+const INITIAL_SCROLL_HOUR = 10;
+
+export interface TimelineShowtime {
+  id: string;
+  hall_id: string;
+  starts_at: string;
+  ends_at: string;
+  blocked_until: string;
+  movies: { title: string };
+}
+
+export interface TimelineSlot {
+  hall_id: string;
+  show_date: string;
+  show_time: string;
+}
+
+interface ScheduleTimelineProps {
+  showtimes: TimelineShowtime[];
+  movies: { id: string; title: string; duration: number }[];
+  halls: { id: string; name: string; timezone: string }[];
+  bufferMinutes: number;
+  onCreate: (movieId: string, slot: TimelineSlot) => void;
+  onMove: (showtimeId: string, slot: TimelineSlot) => void;
+  onSelect: (showtimeId: string) => void;
+}
+
+type DragItem =
+  | { kind: 'movie'; movieId: string; length: number }
+  | { kind: 'showtime'; showtimeId: string; length: number; grabOffset: number };
+
+export const ScheduleTimeline = ({
+  showtimes,
+  movies,
+  halls,
+  bufferMinutes,
+  onCreate,
+  onMove,
+  onSelect,
+}: ScheduleTimelineProps) => {
+  const { toast } = useToast();
+  const [hallId, setHallId] = useState(halls[0]?.id ?? '');
+  const [weekOf, setWeekOf] = useState(() => new Date());
+  const [preview, setPreview] = useState<{ day: string; block: ScheduleBlock; conflict: boolean } | null>(null);
+  const dragRef = useRef<DragItem | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = INITIAL_SCROLL_HOUR * 60 * PX_PER_MINUTE;
+  }, []);
+
+  useEffect(() => {
+    if (!halls.some(hall => hall.id === hallId)) setHallId(halls[0]?.id ?? '');
+  }, [halls, hallId]);
+
+  const days = getWeekDays(weekOf);
+  const timeZone = halls.find(hall => hall.id === hallId)?.timezone ?? 'UTC';
+  const venueToday = getVenueToday(timeZone);
+  const hallShowtimes = showtimes.filter(showtime => showtime.hall_id === hallId);
+  const blocks = hallShowtimes.map(showtime => toScheduleBlock(showtime, timeZone));
+
+  const getDropBlock = (day: Date, e: React.DragEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return null;
+
+    const y = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    const grabOffset = drag.kind === 'showtime' ? drag.grabOffset : 0;
+    const start = addMinutes(startOfDay(day), snapMinutes(y / PX_PER_MINUTE - grabOffset));
+    return {
+      id: drag.kind === 'showtime' ? drag.showtimeId : undefined,
+      hall_id: hallId,
+      start,
+      end: addMinutes(start, drag.length),
+    };
+  };
+
+  const handleDragOver = (day: Date, e: React.DragEvent<HTMLDivElement>) => {
+    const block = getDropBlock(day, e);
+    if (!block) return;
+
+    e.preventDefault();
+    setPreview({ day: toDateValue(day), block, conflict: !!findScheduleConflict(blocks, block) });
+  };
+
+  const handleDrop = (day: Date, e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const drag = dragRef.current;
+    const block = getDropBlock(day, e);
+    dragRef.current = null;
+    setPreview(null);
+    if (!drag || !block) return;
+
+    const conflict = findScheduleConflict(blocks, block);
+    if (conflict) {
+      const other = hallShowtimes.find(showtime => showtime.id === conflict.id);
+      toast({
+        title: 'Hall is busy',
+        description: `Overlaps ${other?.movies.title ?? 'another showtime'} at ${toTimeValue(conflict.start)} (cleaning included).`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const slot = { hall_id: hallId, show_date: toDateValue(block.start), show_time: toTimeValue(block.start) };
+    if (drag.kind === 'movie') {
+      onCreate(drag.movieId, slot);
+    } else {
+      onMove(drag.showtimeId, slot);
+    }
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+    setPreview(null);
+  };
+
+  if (halls.length === 0) {
+    return <p className="text-muted-foreground">Add a hall to start scheduling</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={hallId} onValueChange={setHallId}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Select a hall" />
+          </SelectTrigger>
+          <SelectContent>
+            {halls.map((hall) => (
+              <SelectItem key={hall.id} value={hall.id}>{hall.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" onClick={() => setWeekOf(addWeeks(weekOf, -1))} aria-label="Previous week">
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setWeekOf(new Date())}>
+          This week
+        </Button>
+        <Button variant="outline" size="icon" onClick={() => setWeekOf(addWeeks(weekOf, 1))} aria-label="Next week">
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          {format(days[0], 'MMM d')} – {format(days[6], 'MMM d, yyyy')}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">
+          Drag a movie onto a day to schedule it, or drag a showtime to move it.
+          Hatched areas are the {bufferMinutes}-minute cleaning buffer.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {movies.map((movie) => (
+            <div
+              key={movie.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData('text/plain', movie.id);
+                dragRef.current = { kind: 'movie', movieId: movie.id, length: movie.duration + bufferMinutes };
+              }}
+              onDragEnd={endDrag}
+              className="flex items-center gap-1 rounded-md border border-border bg-card px-2 py-1 text-xs cursor-grab"
+            >
+              <GripVertical className="w-3 h-3 text-muted-foreground" />
+              {movie.title}
+              <span className="text-muted-foreground">{movie.duration}m</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="rounded-md border border-border">
+        <div className="grid grid-cols-[3rem_repeat(7,minmax(0,1fr))] border-b border-border">
+          <div />
+          {days.map((day) => (
+            <div
+              key={day.toISOString()}
+              className={cn('py-2 text-center text-xs font-medium', toDateValue(day) === venueToday && 'text-primary')}
+            >
+              {format(day, 'EEE d')}
+            </div>
+          ))}
+        </div>
+
+        <div ref={scrollRef} className="max-h-[600px] overflow-y-auto">
+          <div className="grid grid-cols-[3rem_repeat(7,minmax(0,1fr))]" style={{ height: DAY_HEIGHT }}>
+            <div className="relative">
+              {Array.from({ length: 24 }, (_, hour) => (
+                <span
+                  key={hour}
+                  className="absolute right-1 -translate-y-1/2 text-[10px] text-muted-foreground"
+                  style={{ top: hour * 60 * PX_PER_MINUTE }}
+                >
+                  {hour > 0 && `${String(hour).padStart(2, '0')}:00`}
+                </span>
+              ))}
+            </div>
+
+            {days.map((day) => {
+              const dayValue = toDateValue(day);
+              const previewSegment = preview?.day === dayValue
+                ? getDaySegment(day, preview.block.start, preview.block.end)
+                : null;
+
+              return (
+                <div
+                  key={dayValue}
+                  className="relative border-l border-border"
+                  style={{
+                    backgroundImage: 'linear-gradient(to bottom, hsl(var(--border)) 1px, transparent 1px)',
+                    backgroundSize: `100% ${60 * PX_PER_MINUTE}px`,
+                  }}
+                  onDragOver={(e) => handleDragOver(day, e)}
+                  onDragLeave={() => setPreview(null)}
+                  onDrop={(e) => handleDrop(day, e)}
+                >
+                  {hallShowtimes.map((showtime) => {
+                    const start = parseScheduleTime(showtime.starts_at, timeZone);
+                    const endsAt = parseScheduleTime(showtime.ends_at, timeZone);
+                    const blockedUntil = parseScheduleTime(showtime.blocked_until, timeZone);
+                    const segment = getDaySegment(day, start, blockedUntil);
+                    if (!segment) return null;
+
+                    const film = getDaySegment(day, start, endsAt);
+                    const filmHeight = film ? (film.to - segment.from) * PX_PER_MINUTE : 0;
+
+                    return (
+                      <div
+                        key={showtime.id}
+                        draggable
+                        onDragStart={(e) => {
+                          e.dataTransfer.setData('text/plain', showtime.id);
+                          // Minutes between the showtime's start and the point that was grabbed,
+                          // which is above this day when the showtime started the day before
+                          const grabY = e.clientY - e.currentTarget.getBoundingClientRect().top;
+                          const segmentStart = addMinutes(startOfDay(day), segment.from);
+                          dragRef.current = {
+                            kind: 'showtime',
+                            showtimeId: showtime.id,
+                            length: differenceInMinutes(blockedUntil, start),
+                            grabOffset: differenceInMinutes(segmentStart, start) + grabY / PX_PER_MINUTE,
+                          };
+                        }}
+                        onDragEnd={endDrag}
+                        onClick={() => onSelect(showtime.id)}
+                        className={cn(
+                          'absolute inset-x-1 overflow-hidden rounded border border-primary/60 cursor-grab',
+                          preview?.block.id === showtime.id && 'opacity-40'
+                        )}
+                        style={{
+                          top: segment.from * PX_PER_MINUTE,
+                          height: (segment.to - segment.from) * PX_PER_MINUTE,
+                          backgroundImage:
+                            'repeating-linear-gradient(45deg, hsl(var(--muted)) 0 4px, transparent 4px 8px)',
+                        }}
+                        title={`${showtime.movies.title} ${toTimeValue(start)}–${toTimeValue(endsAt)}, hall free at ${toTimeValue(blockedUntil)}`}
+                      >
+                        <div className="bg-primary/20 px-1 text-[10px] leading-tight" style={{ height: filmHeight }}>
+                          <p className="font-medium truncate">{showtime.movies.title}</p>
+                          <p className="text-muted-foreground">{toTimeValue(start)}–{toTimeValue(endsAt)}</p>
+                        </div>
+                      </div>
+                    );
+                  })}
+
+                  {previewSegment && (
+                    <div
+                      className={cn(
+                        'pointer-events-none absolute inset-x-1 rounded border-2 border-dashed',
+                        preview.conflict ? 'border-destructive bg-destructive/20' : 'border-primary bg-primary/10'
+                      )}
+                      style={{
+                        top: previewSegment.from * PX_PER_MINUTE,
+                        height: (previewSegment.to - previewSegment.from) * PX_PER_MINUTE,
+                      }}
+                    >
+                      <span className="px-1 text-[10px]">{toTimeValue(preview.block.start)}</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
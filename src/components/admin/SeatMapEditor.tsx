@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Armchair, Ban, Minus, Plus, Tag, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { SEAT_TYPES, SEAT_TYPE_STYLES, getSeatTypeStyle } from '@/lib/seatTypes';
+import {
+  LayoutCell,
+  SeatLayout,
+  findDuplicateLabels,
+  getCurveOffset,
+  getLayoutDimensions,
+  nextSeatLabel,
+  renumberSeats,
+  rowLabelAt,
+} from '@/lib/seatLayout';
+
+interface SeatMapEditorProps {
+  value: SeatLayout;
+  onChange: (layout: SeatLayout) => void;
+}
+
+export const SeatMapEditor = ({ value, onChange }: SeatMapEditorProps) => {
+  // A seat type paints seats; 'aisle', 'gap', 'disable' and 'label' edit single cells
+  const [tool, setTool] = useState('standard');
+  const [selected, setSelected] = useState<{ row: number; cell: number } | null>(null);
+
+  const { columns } = getLayoutDimensions(value);
+  const duplicates = findDuplicateLabels(value);
+  const selectedCell = selected ? value.rows[selected.row]?.cells[selected.cell] : undefined;
+
+  const updateRow = (rowIndex: number, update: (cells: LayoutCell[]) => LayoutCell[], label?: string) => {
+    onChange({
+      ...value,
+      rows: value.rows.map((row, i) =>
+        i === rowIndex ? { label: label ?? row.label, cells: update(row.cells) } : row
+      ),
+    });
+  };
+
+  const applyTool = (rowIndex: number, cellIndex: number) => {
+    const row = value.rows[rowIndex];
+    const cell = row.cells[cellIndex];
+
+    if (tool === 'label') {
+      setSelected(cell.kind === 'seat' ? { row: rowIndex, cell: cellIndex } : null);
+      return;
+    }
+
+    let next: LayoutCell;
+    if (tool === 'aisle' || tool === 'gap') {
+      next = { kind: tool };
+    } else if (tool === 'disable') {
+      if (cell.kind !== 'seat') return;
+      next = { ...cell, disabled: !cell.disabled };
+    } else {
+      next = cell.kind === 'seat'
+        ? { ...cell, type: tool }
+        : { kind: 'seat', label: nextSeatLabel(row), type: tool };
+    }
+
+    updateRow(rowIndex, cells => cells.map((c, i) => (i === cellIndex ? next : c)));
+  };
+
+  const addRow = () => {
+    const label = rowLabelAt(value.rows.length);
+    onChange({
+      ...value,
+      rows: [
+        ...value.rows,
+        {
+          label,
+          cells: Array.from({ length: Math.max(columns, 1) }, (_, i) => ({
+            kind: 'seat' as const,
+            label: `${label}${i + 1}`,
+            type: 'standard',
+          })),
+        },
+      ],
+    });
+  };
+
+  const removeRow = (rowIndex: number) => {
+    setSelected(null);
+    onChange({ ...value, rows: value.rows.filter((_, i) => i !== rowIndex) });
+  };
+
+  const addColumn = () => {
+    onChange({
+      ...value,
+      rows: value.rows.map(row => ({
+        ...row,
+        cells: [...row.cells, { kind: 'seat' as const, label: nextSeatLabel(row), type: 'standard' }],
+      })),
+    });
+  };
+
+  const removeColumn = () => {
+    setSelected(null);
+    onChange({
+      ...value,
+      rows: value.rows.map(row => (row.cells.length === columns ? { ...row, cells: row.cells.slice(0, -1) } : row)),
+    });
+  };
+
+  const renameSelected = (label: string) => {
+    if (!selected || selectedCell?.kind !== 'seat') return;
+    updateRow(selected.row, cells =>
+      cells.map((c, i) => (i === selected.cell && c.kind === 'seat' ? { ...c, label } : c))
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <ToggleGroup
+        type="single"
+        value={tool}
+        onValueChange={(next) => next && setTool(next)}
+        className="flex-wrap justify-start"
+        size="sm"
+        variant="outline"
+      >
+        {SEAT_TYPES.map((type) => (
+          <ToggleGroupItem key={type} value={type} aria-label={`Paint ${type} seats`}>
+            <span className={cn('w-3 h-3 mr-1 rounded-sm border', SEAT_TYPE_STYLES[type].className)} />
+            {SEAT_TYPE_STYLES[type].label}
+          </ToggleGroupItem>
+        ))}
+        <ToggleGroupItem value="aisle" aria-label="Paint aisle">Aisle</ToggleGroupItem>
+        <ToggleGroupItem value="gap" aria-label="Remove seat">
+          <X className="w-3 h-3 mr-1" />
+          Gap
+        </ToggleGroupItem>
+        <ToggleGroupItem value="disable" aria-label="Toggle disabled seat">
+          <Ban className="w-3 h-3 mr-1" />
+          Disable
+        </ToggleGroupItem>
+        <ToggleGroupItem value="label" aria-label="Rename seat">
+          <Tag className="w-3 h-3 mr-1" />
+          Label
+        </ToggleGroupItem>
+      </ToggleGroup>
+
+      <div className="overflow-x-auto rounded-md border border-border p-4">
+        <div className="bg-muted/30 py-1 mb-6 text-center rounded-t-3xl">
+          <p className="text-xs text-muted-foreground">SCREEN</p>
+        </div>
+        <div className="space-y-2 w-max mx-auto">
+          {value.rows.map((row, rowIndex) => (
+            <div key={rowIndex} className="flex items-start gap-1">
+              <Input
+                value={row.label}
+                onChange={(e) => updateRow(rowIndex, cells => cells, e.target.value)}
+                className="w-10 h-8 px-1 text-center text-xs"
+                aria-label={`Row ${rowIndex + 1} label`}
+              />
+              {row.cells.map((cell, cellIndex) => (
+                <button
+                  key={cellIndex}
+                  type="button"
+                  onClick={() => applyTool(rowIndex, cellIndex)}
+                  style={{ transform: `translateY(${getCurveOffset(value.curvature, cellIndex, row.cells.length)}px)` }}
+                  className={cn(
+                    'w-8 h-8 rounded text-[10px] border flex items-center justify-center',
+                    cell.kind === 'seat' && getSeatTypeStyle(cell.type).className,
+                    cell.kind === 'seat' && cell.disabled && 'opacity-40 line-through',
+                    cell.kind === 'seat' && duplicates.includes(cell.label) && 'ring-2 ring-destructive',
+                    cell.kind === 'aisle' && 'border-dashed border-transparent bg-muted/20',
+                    cell.kind === 'gap' && 'border-dashed border-border',
+                    selected?.row === rowIndex && selected?.cell === cellIndex && 'ring-2 ring-primary'
+                  )}
+                  title={cell.kind === 'seat' ? `${cell.label} (${cell.type})` : cell.kind}
+                >
+                  {cell.kind === 'seat' && cell.label}
+                </button>
+              ))}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => removeRow(rowIndex)}
+                aria-label={`Remove row ${row.label}`}
+              >
+                <Minus className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {duplicates.length > 0 && (
+        <p className="text-sm text-destructive">Duplicate seat labels: {duplicates.join(', ')}</p>
+      )}
+
+      {selectedCell?.kind === 'seat' && (
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="seat-label" className="text-xs">Seat label</Label>
+            <Input
+              id="seat-label"
+              value={selectedCell.label}
+              onChange={(e) => renameSelected(e.target.value)}
+              className="w-32"
+            />
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setSelected(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={addRow} disabled={value.rows.length >= 26}>
+          <Plus className="w-4 h-4 mr-1" />
+          Row
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={addColumn} disabled={value.rows.length === 0}>
+          <Plus className="w-4 h-4 mr-1" />
+          Column
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={removeColumn} disabled={columns === 0}>
+          <Minus className="w-4 h-4 mr-1" />
+          Column
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange(renumberSeats(value))}>
+          <Armchair className="w-4 h-4 mr-1" />
+          Renumber seats
+        </Button>
+      </div>
+
+      <div className="space-y-2 max-w-xs">
+        <Label className="text-xs">Row curvature</Label>
+        <Slider
+          min={0}
+          max={1}
+          step={0.1}
+          value={[value.curvature]}
+          onValueChange={([curvature]) => onChange({ ...value, curvature })}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SEAT_TYPES, SEAT_TYPE_STYLES } from '@/lib/seatTypes';
+
+const SEAT_TYPE_OPTIONS = SEAT_TYPES.map(type => ({ value: type, label: SEAT_TYPE_STYLES[type].label }));
+
+interface SeatTypePriceFieldsProps {
+  idPrefix: string;
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+  placeholder?: string;
+  step?: string;
+  // Price something other than seat types, e.g. ticket categories
+  options?: readonly { value: string; label: string }[];
+}
+
+export const SeatTypePriceFields = ({
+  idPrefix,
+  values,
+  onChange,
+  placeholder,
+  step = '0.01',
+  options = SEAT_TYPE_OPTIONS,
+}: SeatTypePriceFieldsProps) => (
+  <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+    {options.map(({ value, label }) => (
+      <div key={value} className="space-y-1">
+        <Label htmlFor={`${idPrefix}-${value}`} className="text-xs">
+          {label}
+        </Label>
+        <Input
+          id={`${idPrefix}-${value}`}
+          type="number"
+          min={0}
+          step={step}
+          placeholder={placeholder}
+          value={values[value] ?? ''}
+          onChange={(e) => onChange({ ...values, [value]: e.target.value })}
+        />
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,506 @@
+import { useState, useEffect } from 'react';
+import { addMinutes } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ConfirmDeleteButton } from '@/components/admin/ConfirmDeleteButton';
+import { SeatTypePriceFields } from '@/components/admin/SeatTypePriceFields';
+import { Pencil, Plus, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatHallName } from '@/lib/cinemas';
+import { toVenueTime } from '@/lib/venueTime';
+import { getErrorMessage } from '@/lib/errors';
+import {
+  ScheduleBlock,
+  WEEKDAYS,
+  findScheduleConflict,
+  getSeriesOccurrences,
+  toDateValue,
+  toScheduleBlock,
+  toScheduleError,
+  toTimeValue,
+} from '@/lib/schedule';
+import { fromPriceInputs, toPriceInputs, toSeatPriceMap } from '@/lib/seatTypes';
+import { PRICED_TICKET_CATEGORIES, PRICED_TICKET_CATEGORY_OPTIONS, getTicketCategoryLabel } from '@/lib/ticketCategories';
+import { z } from 'zod';
+
+type Series = Tables<'showtime_series'> & {
+  movies: { title: string };
+  theater_halls: { name: string; cinemas: { name: string } };
+  showtimes: { count: number }[];
+};
+
+type UpcomingShowtime = Pick<Tables<'showtimes'>, 'id' | 'hall_id' | 'series_id' | 'starts_at' | 'blocked_until'> & {
+  movies: { title: string };
+};
+
+const seriesSchema = z
+  .object({
+    movie_id: z.string().min(1, 'Select a movie'),
+    hall_id: z.string().min(1, 'Select a hall'),
+    weekdays: z.array(z.coerce.number().int().min(1).max(7)).min(1, 'Pick at least one weekday'),
+    show_times: z.array(z.string().min(1, 'Fill in or remove empty times')).min(1, 'Add at least one time'),
+    start_date: z.string().min(1, 'Start date is required'),
+    end_date: z.string().min(1, 'End date is required'),
+    ticket_price: z.coerce.number().nonnegative('Price cannot be negative'),
+  })
+  .refine((series) => series.end_date >= series.start_date, {
+    message: 'End date must be on or after the start date',
+    path: ['end_date'],
+  });
+
+const emptyForm = {
+  movie_id: '',
+  hall_id: '',
+  weekdays: [] as string[],
+  show_times: [''],
+  start_date: '',
+  end_date: '',
+  ticket_price: '',
+  seat_type_prices: toPriceInputs({}),
+  ticket_category_prices: toPriceInputs({}, PRICED_TICKET_CATEGORIES),
+};
+
+const formatWeekdays = (weekdays: number[]) =>
+  WEEKDAYS.filter(day => weekdays.includes(day.value)).map(day => day.label).join(', ');
+
+export const SeriesManager = () => {
+  const { toast } = useToast();
+  const [series, setSeries] = useState<Series[]>([]);
+  const [upcoming, setUpcoming] = useState<UpcomingShowtime[]>([]);
+  const [movies, setMovies] = useState<Pick<Tables<'movies'>, 'id' | 'title' | 'duration'>[]>([]);
+  const [halls, setHalls] = useState<{ id: string; name: string; timezone: string }[]>([]);
+  const [bufferMinutes, setBufferMinutes] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSeries();
+    fetchOptions();
+  }, []);
+
+  const fetchSeries = async () => {
+    const { data, error } = await supabase
+      .from('showtime_series')
+      .select('*, movies(title), theater_halls(name, cinemas(name)), showtimes(count)')
+      .order('start_date', { ascending: false });
+
+    if (error) {
+      toast({
+        title: 'Error loading series',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setSeries(data || []);
+    }
+    setLoading(false);
+  };
+
+  const fetchOptions = async () => {
+    const [{ data: movieData }, { data: hallData }, { data: settings }] = await Promise.all([
+      supabase.from('movies').select('id, title, duration').order('title'),
+      supabase.from('theater_halls').select('id, name, cinemas(name, timezone)').order('name'),
+      supabase.from('app_settings').select('cleaning_buffer_minutes').maybeSingle(),
+    ]);
+    setMovies(movieData || []);
+    setHalls(
+      (hallData || []).map(hall => ({ id: hall.id, name: formatHallName(hall), timezone: hall.cinemas.timezone }))
+    );
+    setBufferMinutes(settings?.cleaning_buffer_minutes ?? 0);
+  };
+
+  // Existing showtimes the preview checks new occurrences against
+  const fetchUpcoming = async () => {
+    const { data } = await supabase
+      .from('showtimes')
+      .select('id, hall_id, series_id, starts_at, blocked_until, movies(title)')
+      .gt('blocked_until', new Date().toISOString());
+    setUpcoming(data || []);
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    fetchUpcoming();
+    setDialogOpen(true);
+  };
+
+  const openEdit = (item: Series) => {
+    setEditingId(item.id);
+    setForm({
+      movie_id: item.movie_id,
+      hall_id: item.hall_id,
+      weekdays: item.weekdays.map(String),
+      show_times: item.show_times.map(time => time.slice(0, 5)),
+      start_date: item.start_date,
+      end_date: item.end_date,
+      ticket_price: String(item.ticket_price),
+      seat_type_prices: toPriceInputs(toSeatPriceMap(item.seat_type_prices)),
+      ticket_category_prices: toPriceInputs(toSeatPriceMap(item.ticket_category_prices), PRICED_TICKET_CATEGORIES),
+    });
+    fetchUpcoming();
+    setDialogOpen(true);
+  };
+
+  const updateTime = (index: number, value: string) => {
+    setForm({ ...form, show_times: form.show_times.map((time, i) => (i === index ? value : time)) });
+  };
+
+  // Saving replaces the series' own unbooked showtimes, so only other showtimes can conflict
+  const movie = movies.find(m => m.id === form.movie_id);
+  const timeZone = halls.find(hall => hall.id === form.hall_id)?.timezone ?? 'UTC';
+  const occurrences = movie && form.hall_id
+    ? getSeriesOccurrences(
+        {
+          weekdays: form.weekdays.map(Number),
+          show_times: form.show_times.filter(Boolean),
+          start_date: form.start_date,
+          end_date: form.end_date,
+        },
+        toVenueTime(new Date(), timeZone)
+      )
+    : [];
+  const others = upcoming.filter(showtime => !editingId || showtime.series_id !== editingId);
+  const accepted: ScheduleBlock[] = others.map(showtime => toScheduleBlock(showtime, timeZone));
+  const preview = occurrences.map((start) => {
+    const block = { hall_id: form.hall_id, start, end: addMinutes(start, movie.duration + bufferMinutes) };
+    const conflict = findScheduleConflict(accepted, block);
+    accepted.push(block);
+    return {
+      start,
+      conflictWith: conflict
+        ? others.find(showtime => showtime.id === conflict.id)?.movies.title ?? 'this series'
+        : null,
+    };
+  });
+  const conflictCount = preview.filter(occurrence => occurrence.conflictWith).length;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const parsed = seriesSchema.parse(form);
+      const { error } = await supabase.rpc('save_showtime_series', {
+        _series_id: editingId,
+        _movie_id: parsed.movie_id,
+        _hall_id: parsed.hall_id,
+        _weekdays: parsed.weekdays,
+        _show_times: parsed.show_times,
+        _start_date: parsed.start_date,
+        _end_date: parsed.end_date,
+        _ticket_price: parsed.ticket_price,
+        _seat_type_prices: fromPriceInputs(form.seat_type_prices),
+        _ticket_category_prices: fromPriceInputs(form.ticket_category_prices, getTicketCategoryLabel),
+      });
+
+      if (error) throw toScheduleError(error);
+
+      toast({ title: editingId ? 'Series updated' : 'Series created' });
+      setDialogOpen(false);
+      fetchSeries();
+    } catch (error) {
+      toast({
+        title: 'Could not save series',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.rpc('delete_showtime_series', { _series_id: id });
+
+    if (error) {
+      toast({
+        title: 'Could not delete series',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Series deleted' });
+    fetchSeries();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Recurring Showtimes</h2>
+        <Button onClick={openCreate} disabled={movies.length === 0 || halls.length === 0}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Series
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading series...</p>
+      ) : series.length === 0 ? (
+        <p className="text-muted-foreground">No recurring showtimes yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Movie</TableHead>
+              <TableHead>Hall</TableHead>
+              <TableHead>Days</TableHead>
+              <TableHead>Times</TableHead>
+              <TableHead>Dates</TableHead>
+              <TableHead>Price</TableHead>
+              <TableHead>Showtimes</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {series.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell className="font-medium">{item.movies.title}</TableCell>
+                <TableCell>{formatHallName(item.theater_halls)}</TableCell>
+                <TableCell>{formatWeekdays(item.weekdays)}</TableCell>
+                <TableCell>{item.show_times.map(time => time.slice(0, 5)).join(', ')}</TableCell>
+                <TableCell>{item.start_date} – {item.end_date}</TableCell>
+                <TableCell>${item.ticket_price}</TableCell>
+                <TableCell>{item.showtimes[0]?.count ?? 0}</TableCell>
+                <TableCell>
+                  <div className="flex justify-end">
+                    <Button variant="ghost" size="icon" onClick={() => openEdit(item)} aria-label="Edit series">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <ConfirmDeleteButton
+                      title="Delete series"
+                      description="Upcoming showtimes in this series without bookings will be removed. Past and booked showtimes are kept as standalone showtimes."
+                      onConfirm={() => handleDelete(item.id)}
+                    />
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Series' : 'Add Series'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Movie</Label>
+                <Select value={form.movie_id} onValueChange={(value) => setForm({ ...form, movie_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a movie" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {movies.map((m) => (
+                      <SelectItem key={m.id} value={m.id}>{m.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Hall</Label>
+                <Select value={form.hall_id} onValueChange={(value) => setForm({ ...form, hall_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a hall" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {halls.map((hall) => (
+                      <SelectItem key={hall.id} value={hall.id}>{hall.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Weekdays</Label>
+              <ToggleGroup
+                type="multiple"
+                value={form.weekdays}
+                onValueChange={(weekdays) => setForm({ ...form, weekdays })}
+                className="justify-start"
+                variant="outline"
+                size="sm"
+              >
+                {WEEKDAYS.map((day) => (
+                  <ToggleGroupItem key={day.value} value={String(day.value)}>{day.label}</ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+            <div className="space-y-2">
+              <Label>Times</Label>
+              <div className="flex flex-wrap items-center gap-2">
+                {form.show_times.map((time, index) => (
+                  <div key={index} className="flex items-center">
+                    <Input
+                      type="time"
+                      value={time}
+                      onChange={(e) => updateTime(index, e.target.value)}
+                      className="w-32"
+                      aria-label={`Time ${index + 1}`}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setForm({ ...form, show_times: form.show_times.filter((_, i) => i !== index) })}
+                      disabled={form.show_times.length === 1}
+                      aria-label={`Remove time ${index + 1}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm({ ...form, show_times: [...form.show_times, ''] })}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Time
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="series-start">From</Label>
+                <Input
+                  id="series-start"
+                  type="date"
+                  value={form.start_date}
+                  onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="series-end">Until</Label>
+                <Input
+                  id="series-end"
+                  type="date"
+                  value={form.end_date}
+                  onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="series-price">Price</Label>
+                <Input
+                  id="series-price"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.ticket_price}
+                  onChange={(e) => setForm({ ...form, ticket_price: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Seat type prices (optional)</Label>
+              <SeatTypePriceFields
+                idPrefix="series-price"
+                values={form.seat_type_prices}
+                onChange={(values) => setForm({ ...form, seat_type_prices: values })}
+                placeholder="Auto"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Ticket category prices (optional)</Label>
+              <SeatTypePriceFields
+                idPrefix="series-category-price"
+                values={form.ticket_category_prices}
+                onChange={(values) => setForm({ ...form, ticket_category_prices: values })}
+                options={PRICED_TICKET_CATEGORY_OPTIONS}
+                placeholder="Not sold"
+              />
+              <p className="text-xs text-muted-foreground">
+                Price for a standard seat; other seat types add their surcharge. Adults pay the seat price.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Preview</Label>
+                <span className="text-xs text-muted-foreground">
+                  {preview.length} upcoming showtime{preview.length === 1 ? '' : 's'}
+                  {conflictCount > 0 && `, ${conflictCount} conflicting`}
+                </span>
+              </div>
+              {preview.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Pick a movie, hall, weekdays, times and dates to see the showtimes this series creates.
+                </p>
+              ) : (
+                <div className="max-h-48 overflow-y-auto rounded-md border border-border">
+                  <Table>
+                    <TableBody>
+                      {preview.map((occurrence) => (
+                        <TableRow key={occurrence.start.toISOString()}>
+                          <TableCell className="py-1">{toDateValue(occurrence.start)}</TableCell>
+                          <TableCell className="py-1">{toTimeValue(occurrence.start)}</TableCell>
+                          <TableCell className="py-1 text-right">
+                            {occurrence.conflictWith ? (
+                              <Badge variant="destructive">Overlaps {occurrence.conflictWith}</Badge>
+                            ) : (
+                              <Badge variant="secondary">OK</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              {editingId && (
+                <p className="text-xs text-muted-foreground">
+                  Upcoming showtimes in this series that already have bookings are left unchanged.
+                </p>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={saving || conflictCount > 0}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/errors';
+import { toScheduleError } from '@/lib/schedule';
+import { z } from 'zod';
+
+const settingsSchema = z.object({
+  cancellation_cutoff_minutes: z.coerce.number().int().min(0, 'Cutoff cannot be negative'),
+  cancellation_refund_percent: z.coerce
+    .number()
+    .int()
+    .min(0, 'Refund must be between 0 and 100%')
+    .max(100, 'Refund must be between 0 and 100%'),
+  cleaning_buffer_minutes: z.coerce.number().int().min(0, 'Cleaning buffer cannot be negative'),
+  sales_open_days: z.coerce.number().int().min(0, 'Sales opening cannot be negative'),
+  sales_close_minutes: z.coerce.number().int().min(0, 'Sales closing cannot be negative'),
+  mock_payments_enabled: z.boolean(),
+});
+
+export const SettingsManager = () => {
+  const { toast } = useToast();
+  const [form, setForm] = useState({
+    cancellation_cutoff_minutes: '',
+    cancellation_refund_percent: '',
+    cleaning_buffer_minutes: '',
+    sales_open_days: '',
+    sales_close_minutes: '',
+    mock_payments_enabled: false,
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [confirmingMockPayments, setConfirmingMockPayments] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .select('*')
+      .single();
+
+    if (error) {
+      toast({
+        title: 'Error loading settings',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setForm({
+        cancellation_cutoff_minutes: String(data.cancellation_cutoff_minutes),
+        cancellation_refund_percent: String(data.cancellation_refund_percent),
+        cleaning_buffer_minutes: String(data.cleaning_buffer_minutes),
+        sales_open_days: String(data.sales_open_days),
+        sales_close_minutes: String(data.sales_close_minutes),
+        mock_payments_enabled: data.mock_payments_enabled,
+      });
+    }
+    setLoading(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const parsed = settingsSchema.parse(form);
+      const { error } = await supabase
+        .from('app_settings')
+        .update({
+          cancellation_cutoff_minutes: parsed.cancellation_cutoff_minutes,
+          cancellation_refund_percent: parsed.cancellation_refund_percent,
+          cleaning_buffer_minutes: parsed.cleaning_buffer_minutes,
+          sales_open_days: parsed.sales_open_days,
+          sales_close_minutes: parsed.sales_close_minutes,
+          mock_payments_enabled: parsed.mock_payments_enabled,
+        })
+        .eq('id', true);
+
+      if (error) throw toScheduleError(error);
+
+      toast({ title: 'Settings saved' });
+    } catch (error) {
+      toast({
+        title: 'Could not save settings',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-muted-foreground">Loading settings...</p>;
+  }
+
+  return (
+    <form onSubmit={handleSave} className="space-y-6 max-w-md">
+      <div>
+        <h2 className="text-xl font-semibold">Cancellations</h2>
+        <p className="text-sm text-muted-foreground">
+          Customers can cancel their own bookings until the cutoff before the show starts.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="settings-cutoff">Cancellation cutoff (minutes before show)</Label>
+        <Input
+          id="settings-cutoff"
+          type="number"
+          min={0}
+          value={form.cancellation_cutoff_minutes}
+          onChange={(e) => setForm({ ...form, cancellation_cutoff_minutes: e.target.value })}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="settings-refund">Refund (% of total price)</Label>
+        <Input
+          id="settings-refund"
+          type="number"
+          min={0}
+          max={100}
+          value={form.cancellation_refund_percent}
+          onChange={(e) => setForm({ ...form, cancellation_refund_percent: e.target.value })}
+          required
+        />
+      </div>
+      <div>
+        <h2 className="text-xl font-semibold">Scheduling</h2>
+        <p className="text-sm text-muted-foreground">
+          Halls stay blocked for this long after each showing. Changing it updates upcoming showtimes
+          and is rejected if they would overlap.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="settings-buffer">Cleaning buffer (minutes)</Label>
+        <Input
+          id="settings-buffer"
+          type="number"
+          min={0}
+          value={form.cleaning_buffer_minutes}
+          onChange={(e) => setForm({ ...form, cleaning_buffer_minutes: e.target.value })}
+          required
+        />
+      </div>
+      <div>
+        <h2 className="text-xl font-semibold">Ticket sales</h2>
+        <p className="text-sm text-muted-foreground">
+          Each showtime can be booked from this many days before it starts until shortly after. Changes apply
+          to upcoming showtimes.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="settings-sales-open">Sales open (days before)</Label>
+          <Input
+            id="settings-sales-open"
+            type="number"
+            min={0}
+            value={form.sales_open_days}
+            onChange={(e) => setForm({ ...form, sales_open_days: e.target.value })}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="settings-sales-close">Sales close (minutes after start)</Label>
+          <Input
+            id="settings-sales-close"
+            type="number"
+            min={0}
+            value={form.sales_close_minutes}
+            onChange={(e) => setForm({ ...form, sales_close_minutes: e.target.value })}
+            required
+          />
+        </div>
+      </div>
+      <div>
+        <h2 className="text-xl font-semibold">Payments</h2>
+        <p className="text-sm text-muted-foreground">
+          The test provider lets customers choose whether a payment succeeds, so anyone can confirm a booking
+          without paying. Only use it on development databases.
+        </p>
+      </div>
+      <div className="flex items-center gap-3">
+        <Switch
+          id="settings-mock-payments"
+          checked={form.mock_payments_enabled}
+          onCheckedChange={(checked) =>
+            checked ? setConfirmingMockPayments(true) : setForm({ ...form, mock_payments_enabled: false })
+          }
+        />
+        <Label htmlFor="settings-mock-payments">Accept test payments</Label>
+      </div>
+      <AlertDialog open={confirmingMockPayments} onOpenChange={setConfirmingMockPayments}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Accept test payments?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Once saved, every customer can confirm their bookings without paying. Never turn this on for a
+              live cinema.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Off</AlertDialogCancel>
+            <AlertDialogAction onClick={() => setForm({ ...form, mock_payments_enabled: true })}>
+              Turn On
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <Button type="submit" disabled={saving}>
+        {saving ? 'Saving...' : 'Save Settings'}
+      </Button>
+    </form>
+  );
+};
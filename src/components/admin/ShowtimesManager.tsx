@@ -0,0 +1,404 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ConfirmDeleteButton } from '@/components/admin/ConfirmDeleteButton';
+import { SeatTypePriceFields } from '@/components/admin/SeatTypePriceFields';
+import { ScheduleTimeline, TimelineSlot } from '@/components/admin/ScheduleTimeline';
+import { Pencil, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatHallName } from '@/lib/cinemas';
+import { getErrorMessage } from '@/lib/errors';
+import { getShowtimeEnd, parseScheduleTime, toScheduleError, toTimeValue } from '@/lib/schedule';
+import { fromPriceInputs, toPriceInputs, toSeatPriceMap } from '@/lib/seatTypes';
+import { PRICED_TICKET_CATEGORIES, PRICED_TICKET_CATEGORY_OPTIONS, getTicketCategoryLabel } from '@/lib/ticketCategories';
+import { z } from 'zod';
+
+type Showtime = Tables<'showtimes'> & {
+  movies: { title: string };
+  theater_halls: { name: string; cinemas: { name: string; timezone: string } };
+};
+
+const showtimeSchema = z.object({
+  movie_id: z.string().min(1, 'Select a movie'),
+  hall_id: z.string().min(1, 'Select a hall'),
+  show_date: z.string().min(1, 'Date is required'),
+  show_time: z.string().min(1, 'Time is required'),
+  ticket_price: z.coerce.number().nonnegative('Price cannot be negative'),
+});
+
+const emptyForm = {
+  movie_id: '',
+  hall_id: '',
+  show_date: '',
+  show_time: '',
+  ticket_price: '',
+  seat_type_prices: toPriceInputs({}),
+  ticket_category_prices: toPriceInputs({}, PRICED_TICKET_CATEGORIES),
+};
+
+export const ShowtimesManager = () => {
+  const { toast } = useToast();
+  const [showtimes, setShowtimes] = useState<Showtime[]>([]);
+  const [movies, setMovies] = useState<Pick<Tables<'movies'>, 'id' | 'title' | 'duration'>[]>([]);
+  const [halls, setHalls] = useState<{ id: string; name: string; timezone: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [bufferMinutes, setBufferMinutes] = useState(0);
+
+  useEffect(() => {
+    fetchShowtimes();
+    fetchOptions();
+  }, []);
+
+  const fetchShowtimes = async () => {
+    const { data, error } = await supabase
+      .from('showtimes')
+      .select('*, movies(title), theater_halls(name, cinemas(name, timezone))')
+      .order('show_date', { ascending: false })
+      .order('show_time');
+
+    if (error) {
+      toast({
+        title: 'Error loading showtimes',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setShowtimes(data || []);
+    }
+    setLoading(false);
+  };
+
+  const fetchOptions = async () => {
+    const [{ data: movieData }, { data: hallData }, { data: settings }] = await Promise.all([
+      supabase.from('movies').select('id, title, duration').order('title'),
+      supabase.from('theater_halls').select('id, name, cinemas(name, timezone)').order('name'),
+      supabase.from('app_settings').select('cleaning_buffer_minutes').maybeSingle(),
+    ]);
+    setMovies(movieData || []);
+    setHalls(
+      (hallData || []).map(hall => ({ id: hall.id, name: formatHallName(hall), timezone: hall.cinemas.timezone }))
+    );
+    setBufferMinutes(settings?.cleaning_buffer_minutes ?? 0);
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openCreateAt = (movieId: string, slot: TimelineSlot) => {
+    setEditingId(null);
+    setForm({ ...emptyForm, ...slot, movie_id: movieId });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (showtime: Showtime) => {
+    setEditingId(showtime.id);
+    setForm({
+      movie_id: showtime.movie_id,
+      hall_id: showtime.hall_id,
+      show_date: showtime.show_date,
+      show_time: showtime.show_time.slice(0, 5),
+      ticket_price: String(showtime.ticket_price),
+      seat_type_prices: toPriceInputs(toSeatPriceMap(showtime.seat_type_prices)),
+      ticket_category_prices: toPriceInputs(toSeatPriceMap(showtime.ticket_category_prices), PRICED_TICKET_CATEGORIES),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const parsed = showtimeSchema.parse(form);
+      const payload = {
+        movie_id: parsed.movie_id,
+        hall_id: parsed.hall_id,
+        show_date: parsed.show_date,
+        show_time: parsed.show_time,
+        ticket_price: parsed.ticket_price,
+        seat_type_prices: fromPriceInputs(form.seat_type_prices),
+        ticket_category_prices: fromPriceInputs(form.ticket_category_prices, getTicketCategoryLabel),
+      };
+
+      const { error } = editingId
+        ? await supabase.from('showtimes').update(payload).eq('id', editingId)
+        : await supabase.from('showtimes').insert(payload);
+
+      if (error) throw toScheduleError(error);
+
+      toast({ title: editingId ? 'Showtime updated' : 'Showtime created' });
+      setDialogOpen(false);
+      fetchShowtimes();
+    } catch (error) {
+      toast({
+        title: 'Could not save showtime',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMove = async (id: string, slot: TimelineSlot) => {
+    const { error } = await supabase
+      .from('showtimes')
+      .update({ hall_id: slot.hall_id, show_date: slot.show_date, show_time: slot.show_time })
+      .eq('id', id);
+
+    if (error) {
+      toast({
+        title: 'Could not move showtime',
+        description: getErrorMessage(toScheduleError(error)),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Showtime moved', description: `${slot.show_date} at ${slot.show_time}` });
+    fetchShowtimes();
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('showtimes').delete().eq('id', id);
+
+    if (error) {
+      toast({
+        title: 'Could not delete showtime',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Showtime deleted' });
+    fetchShowtimes();
+  };
+
+  const formMovie = movies.find(movie => movie.id === form.movie_id);
+  const formEnd = formMovie && form.show_date && form.show_time
+    ? getShowtimeEnd(new Date(`${form.show_date}T${form.show_time}`), formMovie.duration, bufferMinutes)
+    : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Showtimes</h2>
+        <Button onClick={openCreate} disabled={movies.length === 0 || halls.length === 0}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Showtime
+        </Button>
+      </div>
+
+      <Tabs defaultValue="list">
+        <TabsList>
+          <TabsTrigger value="list">List</TabsTrigger>
+          <TabsTrigger value="week">Week</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="list">
+          {loading ? (
+            <p className="text-muted-foreground">Loading showtimes...</p>
+          ) : showtimes.length === 0 ? (
+            <p className="text-muted-foreground">No showtimes yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Movie</TableHead>
+                  <TableHead>Hall</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Ends</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {showtimes.map((showtime) => (
+                  <TableRow key={showtime.id}>
+                    <TableCell className="font-medium">
+                      {showtime.movies.title}
+                      {showtime.series_id && <Badge variant="secondary" className="ml-2">Series</Badge>}
+                    </TableCell>
+                    <TableCell>{formatHallName(showtime.theater_halls)}</TableCell>
+                    <TableCell>{showtime.show_date}</TableCell>
+                    <TableCell>{showtime.show_time.slice(0, 5)}</TableCell>
+                    <TableCell>{toTimeValue(parseScheduleTime(showtime.ends_at, showtime.theater_halls.cinemas.timezone))}</TableCell>
+                    <TableCell>${showtime.ticket_price}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end">
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(showtime)} aria-label="Edit showtime">
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <ConfirmDeleteButton
+                          title="Delete showtime"
+                          description="This showtime and all of its bookings will be permanently removed."
+                          onConfirm={() => handleDelete(showtime.id)}
+                        />
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </TabsContent>
+
+        <TabsContent value="week">
+          <ScheduleTimeline
+            showtimes={showtimes}
+            movies={movies}
+            halls={halls}
+            bufferMinutes={bufferMinutes}
+            onCreate={openCreateAt}
+            onMove={handleMove}
+            onSelect={(id) => {
+              const showtime = showtimes.find(s => s.id === id);
+              if (showtime) openEdit(showtime);
+            }}
+          />
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Showtime' : 'Add Showtime'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Movie</Label>
+              <Select value={form.movie_id} onValueChange={(value) => setForm({ ...form, movie_id: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a movie" />
+                </SelectTrigger>
+                <SelectContent>
+                  {movies.map((movie) => (
+                    <SelectItem key={movie.id} value={movie.id}>{movie.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Hall</Label>
+              <Select value={form.hall_id} onValueChange={(value) => setForm({ ...form, hall_id: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a hall" />
+                </SelectTrigger>
+                <SelectContent>
+                  {halls.map((hall) => (
+                    <SelectItem key={hall.id} value={hall.id}>{hall.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="showtime-date">Date</Label>
+                <Input
+                  id="showtime-date"
+                  type="date"
+                  value={form.show_date}
+                  onChange={(e) => setForm({ ...form, show_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="showtime-time">Time</Label>
+                <Input
+                  id="showtime-time"
+                  type="time"
+                  value={form.show_time}
+                  onChange={(e) => setForm({ ...form, show_time: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="showtime-price">Price</Label>
+                <Input
+                  id="showtime-price"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.ticket_price}
+                  onChange={(e) => setForm({ ...form, ticket_price: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            {formEnd && (
+              <p className="text-sm text-muted-foreground">
+                Ends at {toTimeValue(formEnd.endsAt)}; the hall is free again at {toTimeValue(formEnd.blockedUntil)}.
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label>Seat type prices (optional)</Label>
+              <SeatTypePriceFields
+                idPrefix="showtime-price"
+                values={form.seat_type_prices}
+                onChange={(values) => setForm({ ...form, seat_type_prices: values })}
+                placeholder="Auto"
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave blank to use the base price times the hall's multiplier.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Ticket category prices (optional)</Label>
+              <SeatTypePriceFields
+                idPrefix="showtime-category-price"
+                values={form.ticket_category_prices}
+                onChange={(values) => setForm({ ...form, ticket_category_prices: values })}
+                options={PRICED_TICKET_CATEGORY_OPTIONS}
+                placeholder="Not sold"
+              />
+              <p className="text-xs text-muted-foreground">
+                Price for a standard seat; other seat types add their surcharge. Adults pay the seat price.
+              </p>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
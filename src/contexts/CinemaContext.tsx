@@ -0,0 +1,82 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { CINEMA_STORAGE_KEY } from '@/lib/cinemas';
+
+type Cinema = Tables<'cinemas'>;
+
+interface CinemaContextType {
+  cinemas: Cinema[];
+  // null means every location
+  cinema: Cinema | null;
+  cinemaId: string | null;
+  setCinemaId: (cinemaId: string | null) => void;
+  loading: boolean;
+}
+
+const CinemaContext = createContext<CinemaContextType | undefined>(undefined);
+
+export const CinemaProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [cinemas, setCinemas] = useState<Cinema[]>([]);
+  const [cinemaId, setCinemaIdState] = useState<string | null>(() => localStorage.getItem(CINEMA_STORAGE_KEY));
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchCinemas();
+  }, []);
+
+  // A signed-in customer's saved choice wins over whatever this browser had
+  useEffect(() => {
+    if (user) fetchPreferredCinema(user.id);
+  }, [user]);
+
+  const fetchCinemas = async () => {
+    const { data } = await supabase.from('cinemas').select('*').order('name');
+    setCinemas(data || []);
+    setLoading(false);
+  };
+
+  const fetchPreferredCinema = async (userId: string) => {
+    const { data } = await supabase
+      .from('profiles')
+      .select('preferred_cinema_id')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (data?.preferred_cinema_id) {
+      setCinemaIdState(data.preferred_cinema_id);
+      localStorage.setItem(CINEMA_STORAGE_KEY, data.preferred_cinema_id);
+    }
+  };
+
+  const setCinemaId = (id: string | null) => {
+    setCinemaIdState(id);
+    if (id) localStorage.setItem(CINEMA_STORAGE_KEY, id);
+    else localStorage.removeItem(CINEMA_STORAGE_KEY);
+
+    if (user) {
+      supabase.from('profiles').update({ preferred_cinema_id: id }).eq('id', user.id).then();
+    }
+  };
+
+  // A saved cinema that has since been removed falls back to every location
+  const cinema = cinemas.find(c => c.id === cinemaId) ?? null;
+
+  return (
+    <CinemaContext.Provider
+      value={{ cinemas, cinema, cinemaId: loading ? cinemaId : cinema?.id ?? null, setCinemaId, loading }}
+    >
+      {children}
+    </CinemaContext.Provider>
+  );
+};
+
+export const useCinema = () => {
+  const context = useContext(CinemaContext);
+  if (context === undefined) {
+    throw new Error('useCinema must be used within a CinemaProvider');
+  }
+  return context;
+};
@@ -0,0 +1,24 @@
+import * as React from "react";
+
+// Seconds remaining until `target`, ticking once a second; null when there is no target
+export function useCountdown(target: Date | null) {
+  const getRemaining = React.useCallback(
+    () => (target ? Math.max(0, Math.ceil((target.getTime() - Date.now()) / 1000)) : null),
+    [target],
+  );
+  const [remaining, setRemaining] = React.useState<number | null>(getRemaining);
+
+  React.useEffect(() => {
+    setRemaining(getRemaining());
+    if (!target) return;
+
+    const interval = window.setInterval(() => setRemaining(getRemaining()), 1000);
+    return () => window.clearInterval(interval);
+  }, [target, getRemaining]);
+
+  return remaining;
+}
+
+// m:ss, for showing a countdown's remaining seconds
+export const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
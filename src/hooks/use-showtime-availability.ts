@@ -0,0 +1,74 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ShowtimeAvailability {
+  capacity: number;
+  booked: number;
+  available: number;
+}
+
+// Realtime bursts (a whole booking lands seat by seat) are collapsed into one refetch
+const REFRESH_DELAY_MS = 500;
+
+// Releases (cancellations, lapsed holds) arrive as deletes, which can't be matched to a showtime,
+// so they are picked up by polling instead
+const POLL_INTERVAL_MS = 30_000;
+
+// Seats left for each of the showtimes, kept current as seats are held, booked and released
+export function useShowtimeAvailability(showtimeIds: string[]) {
+  const [availability, setAvailability] = React.useState<Record<string, ShowtimeAvailability>>({});
+  const key = showtimeIds.join(",");
+
+  React.useEffect(() => {
+    const ids = key ? key.split(",") : [];
+    if (ids.length === 0) {
+      setAvailability({});
+      return;
+    }
+
+    let stale = false;
+    let timer: number | undefined;
+    const watched = new Set(ids);
+
+    const fetchAvailability = async () => {
+      const { data, error } = await supabase
+        .from("showtime_availability")
+        .select("showtime_id, capacity, booked, available")
+        .in("showtime_id", ids);
+      // Without numbers the cards just don't show a badge
+      if (stale || error) return;
+
+      setAvailability(
+        Object.fromEntries(
+          (data || []).map((row) => [row.showtime_id, { capacity: row.capacity, booked: row.booked, available: row.available }]),
+        ),
+      );
+    };
+
+    // Only seats taken for one of the listed showtimes are worth a refetch
+    const scheduleRefresh = (payload: { new: { showtime_id?: string } }) => {
+      if (!watched.has(payload.new.showtime_id)) return;
+      window.clearTimeout(timer);
+      timer = window.setTimeout(fetchAvailability, REFRESH_DELAY_MS);
+    };
+
+    fetchAvailability();
+    const poll = window.setInterval(fetchAvailability, POLL_INTERVAL_MS);
+
+    const channel = supabase
+      .channel(`showtime_availability_${crypto.randomUUID()}`)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "booked_seats" }, scheduleRefresh)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "seat_holds" }, scheduleRefresh)
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "seat_holds" }, scheduleRefresh)
+      .subscribe();
+
+    return () => {
+      stale = true;
+      window.clearTimeout(timer);
+      window.clearInterval(poll);
+      supabase.removeChannel(channel);
+    };
+  }, [key]);
+
+  return availability;
+}
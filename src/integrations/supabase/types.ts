@@ -14,8 +14,43 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          cancellation_cutoff_minutes: number
+          cancellation_refund_percent: number
+          cleaning_buffer_minutes: number
+          id: boolean
+          mock_payments_enabled: boolean
+          sales_close_minutes: number
+          sales_open_days: number
+          updated_at: string
+        }
+        Insert: {
+          cancellation_cutoff_minutes?: number
+          cancellation_refund_percent?: number
+          cleaning_buffer_minutes?: number
+          id?: boolean
+          mock_payments_enabled?: boolean
+          sales_close_minutes?: number
+          sales_open_days?: number
+          updated_at?: string
+        }
+        Update: {
+          cancellation_cutoff_minutes?: number
+          cancellation_refund_percent?: number
+          cleaning_buffer_minutes?: number
+          id?: boolean
+          mock_payments_enabled?: boolean
+          sales_close_minutes?: number
+          sales_open_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       booked_seats: {
         Row: {
+          admitted_at: string | null
+          admitted_by: string | null
           booking_id: string
           created_at: string
           id: string
@@ -23,6 +58,8 @@ export type Database = {
           showtime_id: string
         }
         Insert: {
+          admitted_at?: string | null
+          admitted_by?: string | null
           booking_id: string
           created_at?: string
           id?: string
@@ -30,6 +67,8 @@ export type Database = {
           showtime_id: string
         }
         Update: {
+          admitted_at?: string | null
+          admitted_by?: string | null
           booking_id?: string
           created_at?: string
           id?: string
@@ -37,6 +76,13 @@ export type Database = {
           showtime_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "booked_seats_admitted_by_fkey"
+            columns: ["admitted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "booked_seats_booking_id_fkey"
             columns: ["booking_id"]
@@ -53,35 +99,114 @@ export type Database = {
           },
         ]
       }
+      booking_concessions: {
+        Row: {
+          booking_id: string
+          concession_id: string | null
+          created_at: string
+          id: string
+          name: string
+          quantity: number
+          stock_items: Json
+          unit_price: number
+        }
+        Insert: {
+          booking_id: string
+          concession_id?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          quantity: number
+          stock_items?: Json
+          unit_price: number
+        }
+        Update: {
+          booking_id?: string
+          concession_id?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          quantity?: number
+          stock_items?: Json
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_concessions_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_concessions_concession_id_fkey"
+            columns: ["concession_id"]
+            isOneToOne: false
+            referencedRelation: "concessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bookings: {
         Row: {
           booking_status: string
+          cancelled_at: string | null
+          concessions_total: number
           created_at: string
+          discount_amount: number
           id: string
+          payment_due_at: string | null
+          promo_code: string | null
+          promo_code_id: string | null
+          refund_amount: number | null
           seats: string[]
           showtime_id: string
+          ticket_breakdown: Json
           total_price: number
           user_id: string
         }
         Insert: {
           booking_status?: string
+          cancelled_at?: string | null
+          concessions_total?: number
           created_at?: string
+          discount_amount?: number
           id?: string
+          payment_due_at?: string | null
+          promo_code?: string | null
+          promo_code_id?: string | null
+          refund_amount?: number | null
           seats: string[]
           showtime_id: string
+          ticket_breakdown?: Json
           total_price: number
           user_id: string
         }
         Update: {
           booking_status?: string
+          cancelled_at?: string | null
+          concessions_total?: number
           created_at?: string
+          discount_amount?: number
           id?: string
+          payment_due_at?: string | null
+          promo_code?: string | null
+          promo_code_id?: string | null
+          refund_amount?: number | null
           seats?: string[]
           showtime_id?: string
+          ticket_breakdown?: Json
           total_price?: number
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "bookings_promo_code_id_fkey"
+            columns: ["promo_code_id"]
+            isOneToOne: false
+            referencedRelation: "promo_codes"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "bookings_showtime_id_fkey"
             columns: ["showtime_id"]
@@ -98,89 +223,487 @@ export type Database = {
           },
         ]
       }
+      cinemas: {
+        Row: {
+          address: string | null
+          created_at: string
+          id: string
+          latitude: number | null
+          longitude: number | null
+          name: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      concession_combo_items: {
+        Row: {
+          combo_id: string
+          item_id: string
+          quantity: number
+        }
+        Insert: {
+          combo_id: string
+          item_id: string
+          quantity?: number
+        }
+        Update: {
+          combo_id?: string
+          item_id?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "concession_combo_items_combo_id_fkey"
+            columns: ["combo_id"]
+            isOneToOne: false
+            referencedRelation: "concessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "concession_combo_items_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "concessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      concessions: {
+        Row: {
+          active: boolean
+          created_at: string
+          description: string | null
+          id: string
+          kind: string
+          name: string
+          price: number
+          stock: number | null
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          description?: string | null
+          id?: string
+          kind?: string
+          name: string
+          price: number
+          stock?: number | null
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          description?: string | null
+          id?: string
+          kind?: string
+          name?: string
+          price?: number
+          stock?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       movies: {
         Row: {
+          cast_members: string[]
+          certification: string | null
           created_at: string
           description: string | null
+          director: string | null
           duration: number
+          end_date: string | null
+          formats: string[]
           genres: string[]
           id: string
+          original_language: string | null
+          poster_hero_url: string | null
+          poster_path: string | null
+          poster_thumbnail_url: string | null
           poster_url: string | null
+          release_date: string | null
+          release_year: number | null
+          search_vector: unknown | null
+          subtitles: string[]
           title: string
           trailer_url: string | null
           updated_at: string
         }
         Insert: {
+          cast_members?: string[]
+          certification?: string | null
           created_at?: string
           description?: string | null
+          director?: string | null
           duration: number
+          end_date?: string | null
+          formats?: string[]
           genres: string[]
           id?: string
+          original_language?: string | null
+          poster_hero_url?: string | null
+          poster_path?: string | null
+          poster_thumbnail_url?: string | null
           poster_url?: string | null
+          release_date?: string | null
+          release_year?: number | null
+          search_vector?: unknown | null
+          subtitles?: string[]
           title: string
           trailer_url?: string | null
           updated_at?: string
         }
         Update: {
+          cast_members?: string[]
+          certification?: string | null
           created_at?: string
           description?: string | null
+          director?: string | null
           duration?: number
+          end_date?: string | null
+          formats?: string[]
           genres?: string[]
           id?: string
+          original_language?: string | null
+          poster_hero_url?: string | null
+          poster_path?: string | null
+          poster_thumbnail_url?: string | null
           poster_url?: string | null
+          release_date?: string | null
+          release_year?: number | null
+          search_vector?: unknown | null
+          subtitles?: string[]
           title?: string
           trailer_url?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      payments: {
+        Row: {
+          amount: number
+          booking_id: string
+          completed_at: string | null
+          created_at: string
+          failure_reason: string | null
+          id: string
+          provider: string
+          provider_reference: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          booking_id: string
+          completed_at?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          provider: string
+          provider_reference?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string
+          completed_at?: string | null
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          provider?: string
+          provider_reference?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promo_codes: {
+        Row: {
+          active: boolean
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          discount_value: number
+          id: string
+          max_uses: number | null
+          max_uses_per_user: number | null
+          movie_id: string | null
+          showtime_id: string | null
+          updated_at: string
+          valid_from: string | null
+          valid_until: string | null
+        }
+        Insert: {
+          active?: boolean
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type: string
+          discount_value: number
+          id?: string
+          max_uses?: number | null
+          max_uses_per_user?: number | null
+          movie_id?: string | null
+          showtime_id?: string | null
+          updated_at?: string
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Update: {
+          active?: boolean
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: string
+          discount_value?: number
+          id?: string
+          max_uses?: number | null
+          max_uses_per_user?: number | null
+          movie_id?: string | null
+          showtime_id?: string | null
+          updated_at?: string
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promo_codes_movie_id_fkey"
+            columns: ["movie_id"]
+            isOneToOne: false
+            referencedRelation: "movies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promo_codes_showtime_id_fkey"
+            columns: ["showtime_id"]
+            isOneToOne: false
+            referencedRelation: "showtimes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
           email: string
           full_name: string | null
           id: string
+          preferred_cinema_id: string | null
         }
         Insert: {
           created_at?: string
           email: string
           full_name?: string | null
           id: string
+          preferred_cinema_id?: string | null
         }
         Update: {
           created_at?: string
           email?: string
           full_name?: string | null
           id?: string
+          preferred_cinema_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_preferred_cinema_id_fkey"
+            columns: ["preferred_cinema_id"]
+            isOneToOne: false
+            referencedRelation: "cinemas"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seat_holds: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          seat_label: string
+          showtime_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          seat_label: string
+          showtime_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          seat_label?: string
+          showtime_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seat_holds_showtime_id_fkey"
+            columns: ["showtime_id"]
+            isOneToOne: false
+            referencedRelation: "showtimes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seat_holds_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      showtime_series: {
+        Row: {
+          created_at: string
+          end_date: string
+          hall_id: string
+          id: string
+          movie_id: string
+          seat_type_prices: Json
+          show_times: string[]
+          start_date: string
+          ticket_category_prices: Json
+          ticket_price: number
+          updated_at: string
+          weekdays: number[]
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          hall_id: string
+          id?: string
+          movie_id: string
+          seat_type_prices?: Json
+          show_times: string[]
+          start_date: string
+          ticket_category_prices?: Json
+          ticket_price: number
+          updated_at?: string
+          weekdays: number[]
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          hall_id?: string
+          id?: string
+          movie_id?: string
+          seat_type_prices?: Json
+          show_times?: string[]
+          start_date?: string
+          ticket_category_prices?: Json
+          ticket_price?: number
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "showtime_series_hall_id_fkey"
+            columns: ["hall_id"]
+            isOneToOne: false
+            referencedRelation: "theater_halls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showtime_series_movie_id_fkey"
+            columns: ["movie_id"]
+            isOneToOne: false
+            referencedRelation: "movies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       showtimes: {
         Row: {
+          blocked_until: string
           created_at: string
+          ends_at: string
           hall_id: string
           id: string
           movie_id: string
+          sales_close_at: string
+          sales_open_at: string
+          seat_type_prices: Json
+          series_id: string | null
           show_date: string
           show_time: string
+          starts_at: string
+          ticket_category_prices: Json
           ticket_price: number
         }
         Insert: {
+          blocked_until?: string
           created_at?: string
+          ends_at?: string
           hall_id: string
           id?: string
           movie_id: string
+          sales_close_at?: string
+          sales_open_at?: string
+          seat_type_prices?: Json
+          series_id?: string | null
           show_date: string
           show_time: string
+          starts_at?: string
+          ticket_category_prices?: Json
           ticket_price: number
         }
         Update: {
+          blocked_until?: string
           created_at?: string
+          ends_at?: string
           hall_id?: string
           id?: string
           movie_id?: string
+          sales_close_at?: string
+          sales_open_at?: string
+          seat_type_prices?: Json
+          series_id?: string | null
           show_date?: string
           show_time?: string
+          starts_at?: string
+          ticket_category_prices?: Json
           ticket_price?: number
         }
         Relationships: [
@@ -198,34 +721,55 @@ export type Database = {
             referencedRelation: "movies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "showtimes_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "showtime_series"
+            referencedColumns: ["id"]
+          },
         ]
       }
       theater_halls: {
         Row: {
+          cinema_id: string
           columns: number
           created_at: string
           id: string
           name: string
           rows: number
           seat_layout: Json
+          seat_type_multipliers: Json
         }
         Insert: {
+          cinema_id: string
           columns: number
           created_at?: string
           id?: string
           name: string
           rows: number
           seat_layout: Json
+          seat_type_multipliers?: Json
         }
         Update: {
+          cinema_id?: string
           columns?: number
           created_at?: string
           id?: string
           name?: string
           rows?: number
           seat_layout?: Json
+          seat_type_multipliers?: Json
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "theater_halls_cinema_id_fkey"
+            columns: ["cinema_id"]
+            isOneToOne: false
+            referencedRelation: "cinemas"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -258,9 +802,116 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      showtime_availability: {
+        Row: {
+          available: number | null
+          booked: number | null
+          capacity: number | null
+          held: number | null
+          showtime_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      book_seats: {
+        Args: {
+          _promo_code?: string
+          _seat_labels: string[]
+          _showtime_id: string
+          _ticket_categories?: Json
+        }
+        Returns: {
+          booking_status: string
+          cancelled_at: string | null
+          concessions_total: number
+          created_at: string
+          discount_amount: number
+          id: string
+          payment_due_at: string | null
+          promo_code: string | null
+          promo_code_id: string | null
+          refund_amount: number | null
+          seats: string[]
+          showtime_id: string
+          ticket_breakdown: Json
+          total_price: number
+          user_id: string
+        }
+      }
+      cancel_booking: {
+        Args: { _booking_id: string }
+        Returns: {
+          booking_status: string
+          cancelled_at: string | null
+          concessions_total: number
+          created_at: string
+          discount_amount: number
+          id: string
+          payment_due_at: string | null
+          promo_code: string | null
+          promo_code_id: string | null
+          refund_amount: number | null
+          seats: string[]
+          showtime_id: string
+          ticket_breakdown: Json
+          total_price: number
+          user_id: string
+        }
+      }
+      check_in_ticket: {
+        Args: { _showtime_id: string; _token: string }
+        Returns: {
+          admitted_at: string
+          booking_id: string
+          customer_name: string
+          seats: string[]
+        }[]
+      }
+      complete_mock_payment: {
+        Args: {
+          _failure_reason?: string
+          _payment_id: string
+          _provider_reference?: string
+          _status: string
+        }
+        Returns: {
+          booking_status: string
+          cancelled_at: string | null
+          concessions_total: number
+          created_at: string
+          discount_amount: number
+          id: string
+          payment_due_at: string | null
+          promo_code: string | null
+          promo_code_id: string | null
+          refund_amount: number | null
+          seats: string[]
+          showtime_id: string
+          ticket_breakdown: Json
+          total_price: number
+          user_id: string
+        }
+      }
+      delete_showtime_series: {
+        Args: { _series_id: string }
+        Returns: undefined
+      }
+      expire_pending_bookings: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      get_ticket_token: {
+        Args: { _booking_id: string }
+        Returns: string
+      }
+      hall_seats: {
+        Args: { _layout: Json }
+        Returns: {
+          seat_label: string
+          seat_type: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -268,9 +919,151 @@ export type Database = {
         }
         Returns: boolean
       }
+      hold_seat: {
+        Args: { _seat_label: string; _showtime_id: string }
+        Returns: string
+      }
+      is_staff: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      list_movie_genres: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      list_movie_languages: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      preview_promo_code: {
+        Args: {
+          _code: string
+          _seat_labels: string[]
+          _showtime_id: string
+          _ticket_categories?: Json
+        }
+        Returns: {
+          code: string
+          description: string
+          discount_amount: number
+          subtotal: number
+          total: number
+        }[]
+      }
+      release_expired_seat_holds: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      release_seats: {
+        Args: { _seat_labels?: string[]; _showtime_id: string }
+        Returns: undefined
+      }
+      save_showtime_series: {
+        Args: {
+          _end_date: string
+          _hall_id: string
+          _movie_id: string
+          _seat_type_prices?: Json
+          _series_id: string
+          _show_times: string[]
+          _start_date: string
+          _ticket_category_prices?: Json
+          _ticket_price: number
+          _weekdays: number[]
+        }
+        Returns: string
+      }
+      search_movies: {
+        Args: {
+          _certification?: string
+          _cinema_id?: string
+          _format?: string
+          _genre?: string
+          _language?: string
+          _limit?: number
+          _max_duration?: number
+          _min_duration?: number
+          _offset?: number
+          _query?: string
+          _section?: string
+          _showing_on?: string
+        }
+        Returns: {
+          certification: string
+          duration: number
+          end_date: string
+          formats: string[]
+          genres: string[]
+          id: string
+          poster_url: string
+          rank: number
+          release_date: string
+          section: string
+          title: string
+          total_count: number
+        }[]
+      }
+      seat_price: {
+        Args: { _seat_type: string; _showtime_id: string }
+        Returns: number
+      }
+      set_booking_concessions: {
+        Args: { _booking_id: string; _items: Json }
+        Returns: {
+          booking_status: string
+          cancelled_at: string | null
+          concessions_total: number
+          created_at: string
+          discount_amount: number
+          id: string
+          payment_due_at: string | null
+          promo_code: string | null
+          promo_code_id: string | null
+          refund_amount: number | null
+          seats: string[]
+          showtime_id: string
+          ticket_breakdown: Json
+          total_price: number
+          user_id: string
+        }
+      }
+      start_payment: {
+        Args: { _booking_id: string; _provider: string }
+        Returns: {
+          amount: number
+          booking_id: string
+          completed_at: string | null
+          created_at: string
+          failure_reason: string | null
+          id: string
+          provider: string
+          provider_reference: string | null
+          status: string
+          user_id: string
+        }
+      }
+      ticket_price: {
+        Args: { _category: string; _seat_type: string; _showtime_id: string }
+        Returns: number
+      }
+      verify_ticket: {
+        Args: { _token: string }
+        Returns: {
+          admitted_seats: string[]
+          booking_id: string
+          booking_status: string
+          customer_name: string
+          hall_name: string
+          movie_title: string
+          seats: string[]
+          show_date: string
+          show_time: string
+          showtime_id: string
+        }[]
+      }
     }
     Enums: {
-      app_role: "admin" | "user"
+      app_role: "admin" | "user" | "staff"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -398,7 +1191,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "user"],
+      app_role: ["admin", "user", "staff"],
     },
   },
 } as const
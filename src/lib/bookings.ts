@@ -0,0 +1,45 @@
+// starts_at is the absolute instant of the show, so this agrees with cancel_booking whatever the viewer's zone
+export const canCancelBooking = (
+  booking: { booking_status: string; showtimes: { starts_at: string } },
+  cutoffMinutes: number,
+) => {
+  if (booking.booking_status !== 'confirmed') return false;
+
+  return Date.now() < new Date(booking.showtimes.starts_at).getTime() - cutoffMinutes * 60_000;
+};
+
+export type SalesState = 'not_open' | 'open' | 'closed';
+
+// Mirrors public.enforce_sales_window, which has the final say when seats are held or booked
+export const getSalesState = (
+  showtime: { sales_open_at: string; sales_close_at: string },
+  now = Date.now(),
+): SalesState => {
+  if (now < new Date(showtime.sales_open_at).getTime()) return 'not_open';
+  if (now >= new Date(showtime.sales_close_at).getTime()) return 'closed';
+  return 'open';
+};
+
+export type AvailabilityState = 'available' | 'filling_fast' | 'on_hold' | 'sold_out';
+
+// A show is filling fast once a fifth of its seats or fewer are left
+const FILLING_FAST_SHARE = 0.2;
+
+// Only booked seats sell a show out; seats on hold are released after a few minutes if not bought
+export const getAvailabilityState = (availability: {
+  available: number;
+  booked: number;
+  capacity: number;
+}): AvailabilityState => {
+  if (availability.booked >= availability.capacity) return 'sold_out';
+  if (availability.available <= 0) return 'on_hold';
+  if (availability.available <= availability.capacity * FILLING_FAST_SHARE) return 'filling_fast';
+  return 'available';
+};
+
+// Mirrors the rounding cancel_booking applies on the server
+export const getRefundAmount = (totalPrice: number, refundPercent: number) =>
+  Math.round(totalPrice * refundPercent) / 100;
+
+export const getBookingStatusVariant = (status: string) =>
+  status === 'cancelled' || status === 'failed' ? 'destructive' : status === 'pending' ? 'secondary' : 'default';
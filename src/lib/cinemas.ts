@@ -0,0 +1,15 @@
+// Where guests' cinema choice is kept; signed-in customers have it on their profile
+export const CINEMA_STORAGE_KEY = 'cinemax.cinemaId';
+
+// Hall names repeat across cinemas, so say which cinema wherever halls from several are listed
+export const formatHallName = (hall: { name: string; cinemas?: { name: string } | null }) =>
+  hall.cinemas ? `${hall.cinemas.name} · ${hall.name}` : hall.name;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,38 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Concession = Tables<'concessions'>;
+export type ComboItem = Pick<Tables<'concession_combo_items'>, 'combo_id' | 'item_id' | 'quantity'>;
+
+// Mirrors the limit enforced by public.set_booking_concessions
+export const MAX_CONCESSION_QUANTITY = 20;
+
+// Show "only N left" once stock drops to this
+export const LOW_STOCK_THRESHOLD = 5;
+
+// How many can still be sold: an item's own stock, or for a combo whatever its scarcest item allows.
+// Never more than MAX_CONCESSION_QUANTITY, which is also what untracked stock comes back as.
+export const getAvailableQuantity = (
+  concession: Pick<Concession, 'id' | 'kind' | 'stock'>,
+  concessionsById: Map<string, Pick<Concession, 'stock'>>,
+  comboItems: ComboItem[],
+) => {
+  if (concession.kind !== 'combo') return Math.min(concession.stock ?? MAX_CONCESSION_QUANTITY, MAX_CONCESSION_QUANTITY);
+
+  return comboItems
+    .filter(item => item.combo_id === concession.id)
+    .reduce((available, item) => {
+      const stock = concessionsById.get(item.item_id)?.stock;
+      return stock === null || stock === undefined ? available : Math.min(available, Math.floor(stock / item.quantity));
+    }, MAX_CONCESSION_QUANTITY);
+};
+
+// "2 × Popcorn, 1 × Soda" for describing a combo
+export const describeCombo = (
+  comboId: string,
+  comboItems: ComboItem[],
+  concessionsById: Map<string, Pick<Concession, 'name'>>,
+) =>
+  comboItems
+    .filter(item => item.combo_id === comboId)
+    .map(item => `${item.quantity} × ${concessionsById.get(item.item_id)?.name ?? 'Item'}`)
+    .join(', ');
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// Supabase returns plain `{ message, code, ... }` objects rather than Error instances,
+// so read the message off whatever was thrown.
+export function getErrorMessage(error: unknown, fallback = 'Please try again') {
+  if (error instanceof z.ZodError) {
+    return error.errors[0]?.message ?? fallback;
+  }
+  if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string') {
+    return error.message || fallback;
+  }
+  return fallback;
+}
@@ -0,0 +1,41 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { MockScenario, PaymentProvider } from '@/lib/payments';
+
+export const MOCK_SCENARIOS: { value: MockScenario; label: string; description: string }[] = [
+  { value: 'success', label: 'Approve', description: 'The card is charged successfully' },
+  { value: 'decline', label: 'Decline', description: 'The bank declines the card' },
+  { value: 'timeout', label: 'Time out', description: 'The provider never responds' },
+];
+
+const MOCK_LATENCY_MS = 1200;
+
+// Runs entirely in the browser so checkout can be exercised without an external service
+export const mockPaymentProvider: PaymentProvider = {
+  id: 'mock',
+  label: 'Test payment',
+  charge: ({ testScenario = 'success' }) =>
+    new Promise(resolve => {
+      // A timed-out provider simply never answers; payForBooking gives up on it
+      if (testScenario === 'timeout') return;
+
+      setTimeout(
+        () =>
+          resolve(
+            testScenario === 'success'
+              ? { status: 'paid', reference: `mock_${crypto.randomUUID()}` }
+              : { status: 'failed', reason: 'Your card was declined' }
+          ),
+        MOCK_LATENCY_MS,
+      );
+    }),
+  settle: async (paymentId, outcome) => {
+    const { error } = await supabase.rpc('complete_mock_payment', {
+      _payment_id: paymentId,
+      _status: outcome.status,
+      _provider_reference: outcome.status === 'paid' ? outcome.reference : null,
+      _failure_reason: outcome.status === 'failed' ? outcome.reason : null,
+    });
+
+    if (error) throw error;
+  },
+};
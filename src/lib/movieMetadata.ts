@@ -0,0 +1,21 @@
+// Mirror the checks on public.movies
+export const CERTIFICATIONS = ['G', 'PG', 'PG-13', 'R', 'NC-17'] as const;
+
+export const MOVIE_FORMATS = ['2D', '3D', 'IMAX'] as const;
+
+// ISO 639 codes, e.g. 'en' or 'fil'
+export const LANGUAGE_CODE = /^[a-z]{2,3}$/;
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+// 'fr' reads as French; codes the browser doesn't know are shown as entered
+export const formatLanguage = (code: string) => {
+  try {
+    return languageNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
+
+// 2D is assumed, so only the premium formats are worth pointing out on cards
+export const getPremiumFormats = (formats: string[]) => formats.filter(format => format !== '2D');
@@ -0,0 +1,66 @@
+import { supabase } from '@/integrations/supabase/client';
+import { mockPaymentProvider } from '@/lib/mockPaymentProvider';
+
+export type MockScenario = 'success' | 'decline' | 'timeout';
+
+export interface PaymentRequest {
+  paymentId: string;
+  bookingId: string;
+  amount: number;
+  // Only the mock provider looks at this; it picks the outcome to simulate
+  testScenario?: MockScenario;
+}
+
+export type PaymentOutcome =
+  | { status: 'paid'; reference: string }
+  | { status: 'failed'; reason: string };
+
+// A provider charges the customer and reports the result; bookings are only ever
+// confirmed on the server, either by `settle` (mock) or by the provider's webhook.
+export interface PaymentProvider {
+  id: string;
+  label: string;
+  charge: (request: PaymentRequest) => Promise<PaymentOutcome>;
+  settle: (paymentId: string, outcome: PaymentOutcome) => Promise<void>;
+}
+
+// Give up on a provider that hasn't answered after this long
+export const PAYMENT_TIMEOUT_MS = 15_000;
+
+const providers: Record<string, PaymentProvider> = {
+  [mockPaymentProvider.id]: mockPaymentProvider,
+};
+
+export const getPaymentProvider = () =>
+  providers[import.meta.env.VITE_PAYMENT_PROVIDER ?? 'mock'] ?? mockPaymentProvider;
+
+const withTimeout = (charge: Promise<PaymentOutcome>) =>
+  Promise.race([
+    charge,
+    new Promise<PaymentOutcome>(resolve =>
+      setTimeout(
+        () => resolve({ status: 'failed', reason: 'The payment provider did not respond in time' }),
+        PAYMENT_TIMEOUT_MS,
+      )
+    ),
+  ]);
+
+// Open an attempt for a pending booking, charge it and record the result
+export const payForBooking = async (
+  provider: PaymentProvider,
+  bookingId: string,
+  testScenario?: MockScenario,
+) => {
+  const { data: payment, error } = await supabase.rpc('start_payment', {
+    _booking_id: bookingId,
+    _provider: provider.id,
+  });
+
+  if (error) throw error;
+
+  const outcome = await withTimeout(
+    provider.charge({ paymentId: payment.id, bookingId, amount: payment.amount, testScenario })
+  );
+  await provider.settle(payment.id, outcome);
+  return outcome;
+};
@@ -0,0 +1,121 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const POSTER_BUCKET = 'movie-posters';
+
+// Posters are 2:3; each size is cropped to that shape and stored as its own file
+export const POSTER_SIZES = {
+  thumbnail: 160,
+  card: 480,
+  hero: 1080,
+} as const;
+
+export type PosterSize = keyof typeof POSTER_SIZES;
+
+export type PosterImages = Record<PosterSize, Blob>;
+
+export const MAX_POSTER_BYTES = 10 * 1024 * 1024;
+
+const POSTER_ASPECT = 2 / 3;
+const POSTER_TYPE = 'image/webp';
+const POSTER_QUALITY = 0.85;
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('That file could not be read as an image'));
+    };
+    image.src = url;
+  });
+
+// Centre-crop to 2:3 and scale down; smaller sources are never scaled up
+const renderSize = (image: HTMLImageElement, width: number) => {
+  const cropWidth = Math.min(image.naturalWidth, image.naturalHeight * POSTER_ASPECT);
+  const cropHeight = cropWidth / POSTER_ASPECT;
+  const outputWidth = Math.round(Math.min(width, cropWidth));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = outputWidth;
+  canvas.height = Math.round(outputWidth / POSTER_ASPECT);
+
+  const context = canvas.getContext('2d');
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(
+    image,
+    (image.naturalWidth - cropWidth) / 2,
+    (image.naturalHeight - cropHeight) / 2,
+    cropWidth,
+    cropHeight,
+    0,
+    0,
+    canvas.width,
+    canvas.height,
+  );
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('The poster could not be resized'))),
+      POSTER_TYPE,
+      POSTER_QUALITY,
+    );
+  });
+};
+
+export const resizePoster = async (file: File): Promise<PosterImages> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Choose an image file');
+  }
+  if (file.size > MAX_POSTER_BYTES) {
+    throw new Error('Posters can be at most 10 MB');
+  }
+
+  const image = await loadImage(file);
+  const [thumbnail, card, hero] = await Promise.all([
+    renderSize(image, POSTER_SIZES.thumbnail),
+    renderSize(image, POSTER_SIZES.card),
+    renderSize(image, POSTER_SIZES.hero),
+  ]);
+  return { thumbnail, card, hero };
+};
+
+const getPosterFiles = (path: string) =>
+  (Object.keys(POSTER_SIZES) as PosterSize[]).map(size => `${path}/${size}.webp`);
+
+// Each upload gets a fresh folder, so a replaced poster is never served from a stale cache
+export const uploadPoster = async (images: PosterImages) => {
+  const path = crypto.randomUUID();
+  const bucket = supabase.storage.from(POSTER_BUCKET);
+
+  try {
+    for (const size of Object.keys(POSTER_SIZES) as PosterSize[]) {
+      const { error } = await bucket.upload(`${path}/${size}.webp`, images[size], {
+        contentType: POSTER_TYPE,
+        cacheControl: '31536000',
+      });
+      if (error) throw error;
+    }
+  } catch (error) {
+    await removePoster(path);
+    throw error;
+  }
+
+  const getUrl = (size: PosterSize) => bucket.getPublicUrl(`${path}/${size}.webp`).data.publicUrl;
+  return {
+    poster_path: path,
+    poster_thumbnail_url: getUrl('thumbnail'),
+    poster_url: getUrl('card'),
+    poster_hero_url: getUrl('hero'),
+  };
+};
+
+// Best effort: a leftover file only costs storage, so failures are not reported
+export const removePoster = async (path: string | null) => {
+  if (!path) return;
+  await supabase.storage.from(POSTER_BUCKET).remove(getPosterFiles(path));
+};
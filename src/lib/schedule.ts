@@ -0,0 +1,109 @@
+import {
+  addDays,
+  addMinutes,
+  differenceInMinutes,
+  eachDayOfInterval,
+  format,
+  getISODay,
+  parseISO,
+  startOfDay,
+  startOfWeek,
+} from 'date-fns';
+import { toVenueTime } from '@/lib/venueTime';
+
+// Showtimes snap to this grid when dragged onto the timeline
+export const SLOT_MINUTES = 5;
+
+// The time a hall is occupied by one showtime, cleaning buffer included
+export interface ScheduleBlock {
+  id?: string;
+  hall_id: string;
+  start: Date;
+  end: Date;
+}
+
+// The timeline works in the hall's wall-clock time, the same clock show_date/show_time are entered in
+export const parseScheduleTime = (value: string, timeZone: string) => toVenueTime(value, timeZone);
+
+export const toDateValue = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const toTimeValue = (date: Date) => format(date, 'HH:mm');
+
+// Mirrors public.set_showtime_end: the film ends after its runtime, the hall frees up after cleaning
+export const getShowtimeEnd = (start: Date, durationMinutes: number, bufferMinutes: number) => {
+  const endsAt = addMinutes(start, durationMinutes);
+  return { endsAt, blockedUntil: addMinutes(endsAt, bufferMinutes) };
+};
+
+export const toScheduleBlock = (
+  showtime: { id: string; hall_id: string; starts_at: string; blocked_until: string },
+  timeZone: string,
+): ScheduleBlock => ({
+  id: showtime.id,
+  hall_id: showtime.hall_id,
+  start: parseScheduleTime(showtime.starts_at, timeZone),
+  end: parseScheduleTime(showtime.blocked_until, timeZone),
+});
+
+// Same rule as the showtimes_hall_no_overlap constraint; a block never conflicts with itself
+export const findScheduleConflict = (blocks: ScheduleBlock[], candidate: ScheduleBlock) =>
+  blocks.find(block =>
+    block.id !== candidate.id &&
+    block.hall_id === candidate.hall_id &&
+    block.start < candidate.end &&
+    candidate.start < block.end
+  );
+
+// showtimes_hall_no_overlap raises exclusion_violation when showtimes collide in the same hall
+export const toScheduleError = <T extends { code?: string; message: string }>(error: T) =>
+  error.code === '23P01'
+    ? new Error('Another showtime is using this hall at that time (including the cleaning buffer)')
+    : error;
+
+export const getWeekDays = (anchor: Date) => {
+  const monday = startOfWeek(anchor, { weekStartsOn: 1 });
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+};
+
+// The part of [start, end) that falls on `day`, in minutes since that day's midnight
+export const getDaySegment = (day: Date, start: Date, end: Date) => {
+  const dayStart = startOfDay(day);
+  const from = Math.max(0, differenceInMinutes(start, dayStart));
+  const to = Math.min(24 * 60, differenceInMinutes(end, dayStart));
+  return to > from ? { from, to } : null;
+};
+
+export const snapMinutes = (minutes: number) =>
+  Math.min(24 * 60 - SLOT_MINUTES, Math.max(0, Math.round(minutes / SLOT_MINUTES) * SLOT_MINUTES));
+
+// ISO weekday numbers, as stored in showtime_series.weekdays
+export const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 7, label: 'Sun' },
+];
+
+export interface SeriesRule {
+  weekdays: number[];
+  show_times: string[];
+  start_date: string;
+  end_date: string;
+}
+
+// Mirrors the generator in public.save_showtime_series: every matching day and time, skipping the past.
+// `now` is the hall's wall-clock time, like the occurrences themselves.
+export const getSeriesOccurrences = (rule: SeriesRule, now = new Date()) => {
+  const start = parseISO(rule.start_date);
+  const end = parseISO(rule.end_date);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) return [];
+
+  return eachDayOfInterval({ start, end })
+    .filter(day => rule.weekdays.includes(getISODay(day)))
+    .flatMap(day => rule.show_times.map(time => new Date(`${toDateValue(day)}T${time}`)))
+    .filter(occurrence => occurrence >= now)
+    .sort((a, b) => a.getTime() - b.getTime());
+};
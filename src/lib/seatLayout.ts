@@ -0,0 +1,200 @@
+import { z } from 'zod';
+
+// theater_halls.seat_layout comes in two shapes:
+// - legacy (v1): `{ seats: [{ row, cols, type }] }`, a perfect rectangle numbered 1..cols
+// - v2: explicit rows of cells, so halls can have aisles, gaps, custom labels and disabled seats
+
+export type LayoutCell =
+  | { kind: 'seat'; label: string; type: string; disabled?: boolean }
+  | { kind: 'gap' }
+  | { kind: 'aisle' };
+
+export interface LayoutRow {
+  label: string;
+  cells: LayoutCell[];
+}
+
+export interface SeatLayout {
+  version: 2;
+  // 0 renders straight rows, 1 bends the row ends back the furthest
+  curvature: number;
+  rows: LayoutRow[];
+}
+
+interface LegacySeatLayout {
+  seats: { row: string; cols: number; type?: string }[];
+}
+
+// Keep in sync with the validate_seat_layout trigger on theater_halls
+const seatCellSchema = z.object({
+  kind: z.literal('seat'),
+  label: z.string().trim().min(1, 'Every seat needs a label'),
+  type: z.string().min(1).default('standard'),
+  disabled: z.boolean().optional(),
+});
+
+const layoutCellSchema = z.discriminatedUnion('kind', [
+  seatCellSchema,
+  z.object({ kind: z.literal('gap') }),
+  z.object({ kind: z.literal('aisle') }),
+]);
+
+const seatLayoutV2Schema = z.object({
+  version: z.literal(2),
+  curvature: z.number().min(0).max(1).default(0),
+  rows: z
+    .array(
+      z.object({
+        label: z.string().trim().min(1, 'Every row needs a label'),
+        cells: z.array(layoutCellSchema).min(1, 'Every row needs at least one cell'),
+      })
+    )
+    .min(1, 'The layout needs at least one row'),
+});
+
+const legacySeatLayoutSchema = z.object({
+  seats: z
+    .array(
+      z.object({
+        row: z.string().trim().min(1, 'Every row needs a label'),
+        cols: z.number().int().positive('Every row needs at least one seat'),
+        type: z.string().min(1).default('standard'),
+      })
+    )
+    .min(1, 'The layout needs at least one row'),
+});
+
+export interface LayoutSeat {
+  label: string;
+  row: string;
+  type: string;
+  disabled: boolean;
+}
+
+const MAX_CURVE_OFFSET_PX = 24;
+
+export const rowLabelAt = (index: number) => String.fromCharCode(65 + index);
+
+export const createGridLayout = (rows: number, columns: number): SeatLayout => ({
+  version: 2,
+  curvature: 0,
+  rows: Array.from({ length: rows }, (_, i) => {
+    const label = rowLabelAt(i);
+    return {
+      label,
+      cells: Array.from({ length: columns }, (_, col) => ({
+        kind: 'seat' as const,
+        label: `${label}${col + 1}`,
+        type: 'standard',
+      })),
+    };
+  }),
+});
+
+const fromLegacy = (legacy: LegacySeatLayout): SeatLayout => ({
+  version: 2,
+  curvature: 0,
+  rows: legacy.seats.map(row => ({
+    label: row.row,
+    cells: Array.from({ length: row.cols }, (_, col) => ({
+      kind: 'seat' as const,
+      label: `${row.row}${col + 1}`,
+      type: row.type ?? 'standard',
+    })),
+  })),
+});
+
+export class SeatLayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SeatLayoutError';
+  }
+}
+
+const validateSeats = (layout: SeatLayout) => {
+  const seats = getLayoutSeats(layout);
+  if (seats.length === 0) {
+    throw new SeatLayoutError('The layout needs at least one seat');
+  }
+  const duplicates = findDuplicateLabels(layout);
+  if (duplicates.length > 0) {
+    throw new SeatLayoutError(`Duplicate seat labels: ${duplicates.join(', ')}`);
+  }
+};
+
+// Validate whatever is stored on the hall and upgrade it into the v2 shape the UI works with
+export const parseSeatLayout = (value: unknown): SeatLayout => {
+  const isV2 = !!value && typeof value === 'object' && 'version' in value;
+  const result = isV2 ? seatLayoutV2Schema.safeParse(value) : legacySeatLayoutSchema.safeParse(value);
+
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+    throw new SeatLayoutError(`Invalid seat layout${path}: ${issue.message}`);
+  }
+
+  const layout = isV2 ? (result.data as SeatLayout) : fromLegacy(result.data as LegacySeatLayout);
+  validateSeats(layout);
+  return layout;
+};
+
+export const safeParseSeatLayout = (value: unknown) => {
+  try {
+    return { layout: parseSeatLayout(value), error: null };
+  } catch (error) {
+    return { layout: null, error: (error as SeatLayoutError).message };
+  }
+};
+
+export const getLayoutSeats = (layout: SeatLayout): LayoutSeat[] =>
+  layout.rows.flatMap(row =>
+    row.cells.flatMap(cell =>
+      cell.kind === 'seat'
+        ? [{ label: cell.label, row: row.label, type: cell.type, disabled: !!cell.disabled }]
+        : []
+    )
+  );
+
+export const getLayoutDimensions = (layout: SeatLayout) => ({
+  rows: layout.rows.length,
+  columns: Math.max(0, ...layout.rows.map(row => row.cells.length)),
+});
+
+// Vertical offset for a cell so rows bow towards the screen in the middle
+export const getCurveOffset = (curvature: number, index: number, rowLength: number) => {
+  if (!curvature || rowLength < 2) return 0;
+
+  const half = (rowLength - 1) / 2;
+  const distance = (index - half) / half;
+  return Math.round(curvature * MAX_CURVE_OFFSET_PX * distance * distance);
+};
+
+// Smallest `${row}${n}` not already used in the row
+export const nextSeatLabel = (row: LayoutRow) => {
+  const used = new Set(row.cells.flatMap(cell => (cell.kind === 'seat' ? [cell.label] : [])));
+  let n = 1;
+  while (used.has(`${row.label}${n}`)) n++;
+  return `${row.label}${n}`;
+};
+
+// Relabel every seat left to right, skipping gaps and aisles
+export const renumberSeats = (layout: SeatLayout): SeatLayout => ({
+  ...layout,
+  rows: layout.rows.map(row => {
+    let n = 0;
+    return {
+      ...row,
+      cells: row.cells.map(cell => (cell.kind === 'seat' ? { ...cell, label: `${row.label}${++n}` } : cell)),
+    };
+  }),
+});
+
+export const findDuplicateLabels = (layout: SeatLayout) => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const seat of getLayoutSeats(layout)) {
+    if (seen.has(seat.label)) duplicates.add(seat.label);
+    seen.add(seat.label);
+  }
+  return Array.from(duplicates);
+};
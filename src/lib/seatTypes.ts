@@ -0,0 +1,71 @@
+import type { Json } from '@/integrations/supabase/types';
+
+export const SEAT_TYPES = ['standard', 'premium', 'recliner', 'wheelchair', 'companion'] as const;
+
+export type SeatType = (typeof SEAT_TYPES)[number];
+
+export type SeatPriceMap = Partial<Record<string, number>>;
+
+// Tailwind classes for an available seat of each type, reused by the legend swatches
+export const SEAT_TYPE_STYLES: Record<SeatType, { label: string; className: string }> = {
+  standard: { label: 'Standard', className: 'bg-card border-border hover:bg-primary/20' },
+  premium: { label: 'Premium', className: 'bg-amber-500/10 border-amber-500 hover:bg-amber-500/30' },
+  recliner: { label: 'Recliner', className: 'bg-purple-500/10 border-purple-500 hover:bg-purple-500/30' },
+  wheelchair: { label: 'Wheelchair', className: 'bg-sky-500/10 border-sky-500 hover:bg-sky-500/30' },
+  companion: { label: 'Companion', className: 'bg-emerald-500/10 border-emerald-500 hover:bg-emerald-500/30' },
+};
+
+export const getSeatTypeStyle = (type: string) =>
+  SEAT_TYPE_STYLES[type as SeatType] ?? SEAT_TYPE_STYLES.standard;
+
+// Orders known types as listed in SEAT_TYPES, with unknown types last
+export const compareSeatTypes = (a: string, b: string) => {
+  const rank = (type: string) => {
+    const index = SEAT_TYPES.indexOf(type as SeatType);
+    return index === -1 ? SEAT_TYPES.length : index;
+  };
+  return rank(a) - rank(b);
+};
+
+// Read a `{ [type]: number }` JSONB column, dropping anything that isn't a number
+export const toSeatPriceMap = (value: Json | null | undefined): SeatPriceMap => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+  );
+};
+
+// Mirrors public.seat_price: explicit showtime price first, else base price times hall multiplier
+export const getSeatPrice = (
+  type: string,
+  ticketPrice: number,
+  hallMultipliers: SeatPriceMap,
+  showtimePrices: SeatPriceMap,
+) => {
+  const explicit = showtimePrices[type];
+  if (explicit !== undefined) return explicit;
+
+  return Math.round(ticketPrice * (hallMultipliers[type] ?? 1) * 100) / 100;
+};
+
+// Form inputs keyed by seat type (or any other key); blank entries are left out of the stored map
+export const fromPriceInputs = (
+  values: Record<string, string>,
+  getLabel: (key: string) => string = type => getSeatTypeStyle(type).label,
+): SeatPriceMap => {
+  const map: SeatPriceMap = {};
+  for (const [type, value] of Object.entries(values)) {
+    if (value.trim() === '') continue;
+
+    const amount = Number(value);
+    if (!Number.isFinite(amount) || amount < 0) {
+      throw new Error(`${getLabel(type)} must be a non-negative number`);
+    }
+    map[type] = amount;
+  }
+  return map;
+};
+
+export const toPriceInputs = (map: SeatPriceMap, keys: readonly string[] = SEAT_TYPES): Record<string, string> =>
+  Object.fromEntries(keys.map(key => [key, map[key] === undefined ? '' : String(map[key])]));
@@ -0,0 +1,70 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { SeatPriceMap } from '@/lib/seatTypes';
+
+export const TICKET_CATEGORIES = ['adult', 'child', 'senior', 'student'] as const;
+
+export type TicketCategory = (typeof TICKET_CATEGORIES)[number];
+
+export const TICKET_CATEGORY_LABELS: Record<TicketCategory, string> = {
+  adult: 'Adult',
+  child: 'Child',
+  senior: 'Senior',
+  student: 'Student',
+};
+
+// Categories that get a per-showtime price; adults always pay the seat price
+export const PRICED_TICKET_CATEGORIES = TICKET_CATEGORIES.filter(category => category !== 'adult');
+
+export const PRICED_TICKET_CATEGORY_OPTIONS = PRICED_TICKET_CATEGORIES.map(category => ({
+  value: category,
+  label: TICKET_CATEGORY_LABELS[category],
+}));
+
+export const getTicketCategoryLabel = (category: string) =>
+  TICKET_CATEGORY_LABELS[category as TicketCategory] ?? category;
+
+// Adult plus every category the showtime has a price for
+export const getOfferedCategories = (categoryPrices: SeatPriceMap): TicketCategory[] =>
+  TICKET_CATEGORIES.filter(category => category === 'adult' || categoryPrices[category] !== undefined);
+
+// Mirrors public.ticket_price: the category's standard price plus the seat type's surcharge
+export const getTicketPrice = (
+  seatPrice: number,
+  category: string,
+  ticketPrice: number,
+  categoryPrices: SeatPriceMap,
+) => {
+  const categoryPrice = categoryPrices[category];
+  if (category === 'adult' || categoryPrice === undefined) return seatPrice;
+
+  return Math.max(Math.round((categoryPrice + seatPrice - ticketPrice) * 100) / 100, 0);
+};
+
+export interface TicketBreakdownItem {
+  seat: string;
+  seat_type: string;
+  category: string;
+  price: number;
+}
+
+// Read bookings.ticket_breakdown; bookings made before categories existed have none
+export const toTicketBreakdown = (value: Json | null | undefined): TicketBreakdownItem[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+    const { seat, seat_type, category, price } = item;
+    if (typeof seat !== 'string' || typeof category !== 'string' || typeof price !== 'number') return [];
+    return [{ seat, seat_type: typeof seat_type === 'string' ? seat_type : 'standard', category, price }];
+  });
+};
+
+// "2 × Adult, 1 × Child"
+export const summarizeTicketCategories = (breakdown: TicketBreakdownItem[]) => {
+  const counts = new Map<string, number>();
+  for (const item of breakdown) counts.set(item.category, (counts.get(item.category) ?? 0) + 1);
+
+  return Array.from(counts)
+    .map(([category, count]) => `${count} × ${getTicketCategoryLabel(category)}`)
+    .join(', ');
+};
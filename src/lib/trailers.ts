@@ -0,0 +1,70 @@
+export type Trailer =
+  | { kind: 'youtube' | 'vimeo'; embedUrl: string }
+  | { kind: 'video'; src: string };
+
+const VIDEO_EXTENSIONS = ['mp4', 'webm', 'ogg', 'ogv', 'mov', 'm4v'];
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+const parseUrl = (value: string) => {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+// watch?v=ID, youtu.be/ID, /embed/ID, /shorts/ID and /live/ID all name the same video
+const getYouTubeId = (url: URL) => {
+  const host = url.hostname.replace(/^(www|m)\./, '');
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  let id: string | null = null;
+  if (host === 'youtu.be') {
+    id = segments[0];
+  } else if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+    if (segments[0] === 'watch') id = url.searchParams.get('v');
+    else if (['embed', 'shorts', 'live'].includes(segments[0])) id = segments[1];
+  }
+
+  return id && YOUTUBE_ID.test(id) ? id : null;
+};
+
+// vimeo.com/ID, vimeo.com/ID/HASH (unlisted), vimeo.com/channels/NAME/ID and player.vimeo.com/video/ID
+const getVimeoVideo = (url: URL) => {
+  const host = url.hostname.replace(/^www\./, '');
+  if (host !== 'vimeo.com' && host !== 'player.vimeo.com') return null;
+
+  const segments = url.pathname.split('/').filter(Boolean);
+  const index = segments.findIndex(segment => /^\d+$/.test(segment));
+  if (index === -1) return null;
+
+  const hash = url.searchParams.get('h') ?? (/^[\da-f]+$/i.test(segments[index + 1] ?? '') ? segments[index + 1] : null);
+  return { id: segments[index], hash };
+};
+
+// Work out how to play a trailer link in the app; null means it can only be opened elsewhere
+export const parseTrailerUrl = (value: string | null): Trailer | null => {
+  const url = value ? parseUrl(value) : null;
+  if (!url) return null;
+
+  const youTubeId = getYouTubeId(url);
+  if (youTubeId) {
+    return { kind: 'youtube', embedUrl: `https://www.youtube-nocookie.com/embed/${youTubeId}?autoplay=1&rel=0` };
+  }
+
+  const vimeo = getVimeoVideo(url);
+  if (vimeo) {
+    const params = new URLSearchParams({ autoplay: '1' });
+    if (vimeo.hash) params.set('h', vimeo.hash);
+    return { kind: 'vimeo', embedUrl: `https://player.vimeo.com/video/${vimeo.id}?${params}` };
+  }
+
+  const extension = url.pathname.split('.').pop()?.toLowerCase();
+  if (extension && VIDEO_EXTENSIONS.includes(extension)) {
+    return { kind: 'video', src: url.toString() };
+  }
+
+  return null;
+};
@@ -0,0 +1,43 @@
+import { format } from 'date-fns';
+
+// show_date/show_time are wall-clock time at the cinema, while starts_at and the other TIMESTAMPTZ
+// columns are instants. date-fns only knows the browser's zone, so instants are shifted to a Date whose
+// local fields read as the venue's clock before they are laid out or formatted.
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const toVenueTime = (value: string | Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(new Date(value))
+      .map(part => [part.type, Number(part.value)])
+  );
+  return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+};
+
+export const formatVenueTime = (value: string | Date, timeZone: string, pattern: string) =>
+  format(toVenueTime(value, timeZone), pattern);
+
+// The venue's calendar date right now, comparable with show_date
+export const getVenueToday = (timeZone: string) => formatVenueTime(new Date(), timeZone, 'yyyy-MM-dd');
+
+// Mention the venue's zone only when it differs from the viewer's, e.g. when booking from abroad
+export const getVenueTimeZoneNote = (timeZone: string) =>
+  timeZone === Intl.DateTimeFormat().resolvedOptions().timeZone ? null : `Times are local to the cinema (${timeZone})`;
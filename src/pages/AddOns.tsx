@@ -0,0 +1,297 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Navbar } from '@/components/Navbar';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Minus, Plus, Popcorn, Timer } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { formatCountdown, useCountdown } from '@/hooks/use-countdown';
+import { getErrorMessage } from '@/lib/errors';
+import {
+  ComboItem,
+  Concession,
+  LOW_STOCK_THRESHOLD,
+  describeCombo,
+  getAvailableQuantity,
+} from '@/lib/concessions';
+
+interface AddOnsBooking {
+  id: string;
+  booking_status: string;
+  payment_due_at: string | null;
+  total_price: number;
+  concessions_total: number;
+  showtimes: { movies: { title: string } };
+}
+
+interface SavedLine {
+  concession_id: string | null;
+  quantity: number;
+  stock_items: Json;
+}
+
+const AddOns = () => {
+  const { bookingId } = useParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [booking, setBooking] = useState<AddOnsBooking | null>(null);
+  const [concessions, setConcessions] = useState<Concession[]>([]);
+  const [comboItems, setComboItems] = useState<ComboItem[]>([]);
+  const [savedLines, setSavedLines] = useState<SavedLine[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const dueAt = useMemo(
+    () => (booking?.payment_due_at ? new Date(booking.payment_due_at) : null),
+    [booking?.payment_due_at]
+  );
+  const secondsLeft = useCountdown(booking?.booking_status === 'pending' ? dueAt : null);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    if (bookingId) fetchAddOns();
+  }, [user, bookingId]);
+
+  const fetchAddOns = async () => {
+    const [{ data: bookingData, error }, { data: catalog }, { data: combos }, { data: lines }] = await Promise.all([
+      supabase
+        .from('bookings')
+        .select('id, booking_status, payment_due_at, total_price, concessions_total, showtimes (movies (title))')
+        .eq('id', bookingId)
+        .eq('user_id', user.id)
+        .maybeSingle(),
+      supabase.from('concessions').select('*').eq('active', true).order('kind').order('name'),
+      supabase.from('concession_combo_items').select('combo_id, item_id, quantity'),
+      supabase.from('booking_concessions').select('concession_id, quantity, stock_items').eq('booking_id', bookingId),
+    ]);
+
+    if (error) {
+      toast({
+        title: 'Error loading booking',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+
+    // Nothing to offer, so go straight to payment
+    if (bookingData?.booking_status === 'pending' && (catalog || []).length === 0) {
+      navigate(`/checkout/${bookingData.id}`, { replace: true });
+      return;
+    }
+
+    setBooking(bookingData);
+    setConcessions(catalog || []);
+    setComboItems(combos || []);
+    setSavedLines(lines || []);
+
+    // Add-ons taken off sale since they were picked can't be shown or sold again, so drop them
+    const onSale = new Set((catalog || []).map(concession => concession.id));
+    const keptLines = (lines || []).filter(line => line.concession_id && onSale.has(line.concession_id));
+    if (keptLines.length < (lines || []).filter(line => line.concession_id).length) {
+      toast({
+        title: 'Some add-ons are no longer available',
+        description: 'They have been removed from your order.',
+      });
+    }
+    setQuantities(Object.fromEntries(keptLines.map(line => [line.concession_id, line.quantity])));
+    setLoading(false);
+  };
+
+  // Stock as it would be without this booking's current add-ons, which it may keep or change
+  const concessionsById = useMemo(() => {
+    const restocked = new Map<string, number>();
+    for (const line of savedLines) {
+      if (!line.stock_items || typeof line.stock_items !== 'object' || Array.isArray(line.stock_items)) continue;
+      for (const [itemId, quantity] of Object.entries(line.stock_items)) {
+        if (typeof quantity === 'number') restocked.set(itemId, (restocked.get(itemId) ?? 0) + quantity);
+      }
+    }
+
+    return new Map(
+      concessions.map(concession => [
+        concession.id,
+        {
+          ...concession,
+          stock: concession.stock === null ? null : concession.stock + (restocked.get(concession.id) ?? 0),
+        },
+      ])
+    );
+  }, [concessions, savedLines]);
+
+  const setQuantity = (id: string, quantity: number) => {
+    setQuantities(prev => {
+      const next = { ...prev };
+      if (quantity > 0) next[id] = quantity;
+      else delete next[id];
+      return next;
+    });
+  };
+
+  const handleContinue = async () => {
+    if (!booking) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('set_booking_concessions', {
+        _booking_id: booking.id,
+        _items: quantities,
+      });
+
+      if (error) throw error;
+
+      navigate(`/checkout/${booking.id}`);
+    } catch (error) {
+      toast({
+        title: 'Could not update add-ons',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+      fetchAddOns();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container mx-auto px-4 py-12 text-center">
+          <p className="text-muted-foreground">Loading add-ons...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!booking || booking.booking_status !== 'pending' || secondsLeft === 0) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container mx-auto px-4 py-12 text-center space-y-4">
+          <p className="text-muted-foreground">
+            {booking ? 'Add-ons can only be changed before the booking is paid for.' : 'Booking not found'}
+          </p>
+          {booking && (
+            <Button asChild variant="outline">
+              <Link to={`/checkout/${booking.id}`}>Back to Checkout</Link>
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const ticketsTotal = Number(booking.total_price) - Number(booking.concessions_total);
+  const addOnsTotal = concessions.reduce(
+    (sum, concession) => sum + (quantities[concession.id] ?? 0) * Number(concession.price),
+    0
+  );
+  const hasAddOns = Object.keys(quantities).length > 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Snacks & Drinks</h1>
+            <p className="text-muted-foreground">Add concessions to your {booking.showtimes.movies.title} booking</p>
+          </div>
+          {secondsLeft !== null && (
+            <p className="flex items-center gap-1 text-sm text-muted-foreground shrink-0">
+              <Timer className="w-4 h-4" />
+              Seats reserved for {formatCountdown(secondsLeft)}
+            </p>
+          )}
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-4">
+          {concessions.map((concession) => {
+            const quantity = quantities[concession.id] ?? 0;
+            const available = getAvailableQuantity(concession, concessionsById, comboItems);
+
+            return (
+              <Card key={concession.id} className="p-4 flex flex-col gap-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <h2 className="font-semibold flex items-center gap-2">
+                      {concession.name}
+                      {concession.kind === 'combo' && <Badge variant="secondary">Combo</Badge>}
+                    </h2>
+                    <p className="text-sm text-muted-foreground">
+                      {concession.kind === 'combo'
+                        ? describeCombo(concession.id, comboItems, concessionsById)
+                        : concession.description}
+                    </p>
+                  </div>
+                  <span className="font-semibold">${Number(concession.price).toFixed(2)}</span>
+                </div>
+                <div className="flex items-center justify-between mt-auto">
+                  <span className="text-xs text-muted-foreground">
+                    {available === 0 ? 'Sold out' : available <= LOW_STOCK_THRESHOLD ? `Only ${available} left` : ''}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setQuantity(concession.id, quantity - 1)}
+                      disabled={quantity === 0}
+                      aria-label={`Remove one ${concession.name}`}
+                    >
+                      <Minus className="w-4 h-4" />
+                    </Button>
+                    <span className="w-6 text-center font-medium">{quantity}</span>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setQuantity(concession.id, quantity + 1)}
+                      disabled={quantity >= available}
+                      aria-label={`Add one ${concession.name}`}
+                    >
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+
+        <Card className="p-6 space-y-2 sticky bottom-4">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Tickets</span>
+            <span>${ticketsTotal.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground flex items-center gap-1">
+              <Popcorn className="w-4 h-4" />
+              Add-ons
+            </span>
+            <span>${addOnsTotal.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between items-center pt-2 border-t border-border">
+            <span className="text-muted-foreground">Total</span>
+            <span className="text-2xl font-bold text-primary">${(ticketsTotal + addOnsTotal).toFixed(2)}</span>
+          </div>
+          <Button className="w-full" onClick={handleContinue} disabled={saving}>
+            {saving ? 'Saving...' : hasAddOns ? 'Continue to Payment' : 'Skip Add-ons'}
+          </Button>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AddOns;
@@ -0,0 +1,70 @@
+import { Navbar } from '@/components/Navbar';
+import { Card } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { MoviesManager } from '@/components/admin/MoviesManager';
+import { CinemasManager } from '@/components/admin/CinemasManager';
+import { HallsManager } from '@/components/admin/HallsManager';
+import { ShowtimesManager } from '@/components/admin/ShowtimesManager';
+import { SeriesManager } from '@/components/admin/SeriesManager';
+import { BookingsManager } from '@/components/admin/BookingsManager';
+import { PromoCodesManager } from '@/components/admin/PromoCodesManager';
+import { ConcessionsManager } from '@/components/admin/ConcessionsManager';
+import { SettingsManager } from '@/components/admin/SettingsManager';
+
+const Admin = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-8">Admin Dashboard</h1>
+
+        <Tabs defaultValue="movies">
+          <TabsList className="mb-6">
+            <TabsTrigger value="movies">Movies</TabsTrigger>
+            <TabsTrigger value="cinemas">Cinemas</TabsTrigger>
+            <TabsTrigger value="halls">Halls</TabsTrigger>
+            <TabsTrigger value="showtimes">Showtimes</TabsTrigger>
+            <TabsTrigger value="series">Series</TabsTrigger>
+            <TabsTrigger value="bookings">Bookings</TabsTrigger>
+            <TabsTrigger value="promos">Promo Codes</TabsTrigger>
+            <TabsTrigger value="concessions">Concessions</TabsTrigger>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
+          </TabsList>
+
+          <Card className="p-6">
+            <TabsContent value="movies" className="mt-0">
+              <MoviesManager />
+            </TabsContent>
+            <TabsContent value="cinemas" className="mt-0">
+              <CinemasManager />
+            </TabsContent>
+            <TabsContent value="halls" className="mt-0">
+              <HallsManager />
+            </TabsContent>
+            <TabsContent value="showtimes" className="mt-0">
+              <ShowtimesManager />
+            </TabsContent>
+            <TabsContent value="series" className="mt-0">
+              <SeriesManager />
+            </TabsContent>
+            <TabsContent value="bookings" className="mt-0">
+              <BookingsManager />
+            </TabsContent>
+            <TabsContent value="promos" className="mt-0">
+              <PromoCodesManager />
+            </TabsContent>
+            <TabsContent value="concessions" className="mt-0">
+              <ConcessionsManager />
+            </TabsContent>
+            <TabsContent value="settings" className="mt-0">
+              <SettingsManager />
+            </TabsContent>
+          </Card>
+        </Tabs>
+      </div>
+    </div>
+  );
+};
+
+export default Admin;
@@ -1,17 +1,40 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Navbar } from '@/components/Navbar';
+import { ConcessionLines } from '@/components/ConcessionLines';
+import { TicketBreakdown } from '@/components/TicketBreakdown';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Ticket, Calendar, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Ticket, Calendar, Clock, QrCode, CreditCard } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+import { canCancelBooking, getBookingStatusVariant, getRefundAmount } from '@/lib/bookings';
+import { formatHallName } from '@/lib/cinemas';
+import { getErrorMessage } from '@/lib/errors';
+import { toTicketBreakdown } from '@/lib/ticketCategories';
+import type { Tables } from '@/integrations/supabase/types';
 
 const Bookings = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [bookings, setBookings] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
+  const [settings, setSettings] = useState<Tables<'app_settings'> | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const { toast } = useToast();
 
   useEffect(() => {
     if (!user) {
@@ -19,8 +42,43 @@ const Bookings = () => {
       return;
     }
     fetchBookings();
+    fetchSettings();
   }, [user]);
 
+  const fetchSettings = async () => {
+    const { data } = await supabase
+      .from('app_settings')
+      .select('*')
+      .maybeSingle();
+
+    setSettings(data);
+  };
+
+  const handleCancel = async (bookingId: string) => {
+    setCancellingId(bookingId);
+    try {
+      const { data, error } = await supabase.rpc('cancel_booking', {
+        _booking_id: bookingId,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Booking cancelled',
+        description: `$${Number(data.refund_amount ?? 0).toFixed(2)} will be refunded to you.`,
+      });
+      fetchBookings();
+    } catch (error) {
+      toast({
+        title: 'Cancellation failed',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
   const fetchBookings = async () => {
     if (!user) return;
 
@@ -28,12 +86,14 @@ const Bookings = () => {
       .from('bookings')
       .select(`
         *,
+        booking_concessions (id, name, quantity, unit_price),
         showtimes (
           show_date,
           show_time,
+          starts_at,
           ticket_price,
-          movies (title, poster_url),
-          theater_halls (name)
+          movies (title, poster_url, poster_thumbnail_url),
+          theater_halls (name, cinemas (name))
         )
       `)
       .eq('user_id', user.id)
@@ -65,13 +125,15 @@ const Bookings = () => {
               <Card key={booking.id} className="p-6">
                 <div className="flex gap-4 mb-4">
                   <img
-                    src={booking.showtimes.movies.poster_url || '/placeholder.svg'}
+                    src={booking.showtimes.movies.poster_thumbnail_url || booking.showtimes.movies.poster_url || '/placeholder.svg'}
                     alt={booking.showtimes.movies.title}
                     className="w-20 h-28 object-cover rounded"
                   />
                   <div className="flex-1">
                     <h3 className="font-bold mb-2">{booking.showtimes.movies.title}</h3>
-                    <Badge>{booking.booking_status}</Badge>
+                    <Badge variant={getBookingStatusVariant(booking.booking_status)}>
+                      {booking.booking_status}
+                    </Badge>
                   </div>
                 </div>
                 
@@ -86,11 +148,13 @@ const Bookings = () => {
                   </div>
                   <div className="flex items-center gap-2 text-muted-foreground">
                     <Ticket className="w-4 h-4" />
-                    {booking.showtimes.theater_halls.name}
+                    {formatHallName(booking.showtimes.theater_halls)}
                   </div>
                 </div>
 
                 <div className="mt-4 pt-4 border-t border-border">
+                  <TicketBreakdown items={toTicketBreakdown(booking.ticket_breakdown)} className="mb-3" />
+                  <ConcessionLines lines={booking.booking_concessions} className="mb-3" />
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-muted-foreground">
                       Seats: {booking.seats.join(', ')}
@@ -99,6 +163,62 @@ const Bookings = () => {
                       ${booking.total_price}
                     </span>
                   </div>
+                  {booking.promo_code && (
+                    <p className="text-sm text-muted-foreground mt-2">
+                      Saved ${Number(booking.discount_amount).toFixed(2)} with {booking.promo_code}
+                    </p>
+                  )}
+                  {booking.booking_status === 'cancelled' && booking.refund_amount !== null && (
+                    <p className="text-sm text-muted-foreground mt-2">
+                      Refunded ${Number(booking.refund_amount).toFixed(2)}
+                    </p>
+                  )}
+                  {booking.booking_status === 'pending' && (
+                    <Button asChild size="sm" className="w-full mt-4">
+                      <Link to={`/checkout/${booking.id}`}>
+                        <CreditCard className="w-4 h-4 mr-2" />
+                        Complete Payment
+                      </Link>
+                    </Button>
+                  )}
+                  {booking.booking_status === 'confirmed' && (
+                    <Button asChild size="sm" className="w-full mt-4">
+                      <Link to={`/tickets/${booking.id}`}>
+                        <QrCode className="w-4 h-4 mr-2" />
+                        View Ticket
+                      </Link>
+                    </Button>
+                  )}
+                  {settings && canCancelBooking(booking, settings.cancellation_cutoff_minutes) && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-full mt-2"
+                          disabled={cancellingId === booking.id}
+                        >
+                          {cancellingId === booking.id ? 'Cancelling...' : 'Cancel Booking'}
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Cancel this booking?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Your seats ({booking.seats.join(', ')}) will be released and $
+                            {getRefundAmount(booking.total_price, settings.cancellation_refund_percent).toFixed(2)} will
+                            be refunded. This cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Keep Booking</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleCancel(booking.id)}>
+                            Cancel Booking
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
                 </div>
               </Card>
             ))}
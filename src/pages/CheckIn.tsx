@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Navbar } from '@/components/Navbar';
+import { QrScanner } from '@/components/QrScanner';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { useCinema } from '@/contexts/CinemaContext';
+import { cn } from '@/lib/utils';
+import { formatHallName } from '@/lib/cinemas';
+import { formatVenueTime, getVenueToday } from '@/lib/venueTime';
+
+interface CheckInShowtime {
+  id: string;
+  show_time: string;
+  movies: { title: string };
+  theater_halls: { name: string; cinemas: { name: string; timezone: string } };
+}
+
+interface ScanResult {
+  ok: boolean;
+  title: string;
+  description: string;
+  at: Date;
+}
+
+// Turn a check_in_ticket refusal into something the person at the door can act on
+const describeRefusal = (error: { code?: string; message: string; details?: string }, timeZone: string) => {
+  if (error.code === '23505' && error.details) {
+    return `${error.message} at ${formatVenueTime(error.details, timeZone, 'HH:mm')}`;
+  }
+  return error.details ? `${error.message}: ${error.details}` : error.message;
+};
+
+const CheckIn = () => {
+  const { cinema, cinemaId } = useCinema();
+  const [date, setDate] = useState(() => getVenueToday(cinema?.timezone));
+  const [showtimes, setShowtimes] = useState<CheckInShowtime[]>([]);
+  const [showtimeId, setShowtimeId] = useState('');
+  const [admission, setAdmission] = useState({ admitted: 0, total: 0 });
+  const [manualCode, setManualCode] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [results, setResults] = useState<ScanResult[]>([]);
+
+  // "Today" is the cinema's date, not the date wherever this device thinks it is
+  useEffect(() => {
+    if (cinema) setDate(getVenueToday(cinema.timezone));
+  }, [cinema?.timezone]);
+
+  useEffect(() => {
+    fetchShowtimes();
+  }, [date, cinemaId]);
+
+  useEffect(() => {
+    if (showtimeId) fetchAdmission();
+  }, [showtimeId]);
+
+  const fetchShowtimes = async () => {
+    // Door staff only need the showtimes at the cinema picked in the navbar
+    let query = supabase
+      .from('showtimes')
+      .select('id, show_time, movies(title), theater_halls!inner(name, cinemas(name, timezone))')
+      .eq('show_date', date);
+
+    if (cinemaId) {
+      query = query.eq('theater_halls.cinema_id', cinemaId);
+    }
+
+    const { data } = await query.order('show_time');
+
+    setShowtimes(data || []);
+    setShowtimeId('');
+  };
+
+  const fetchAdmission = async () => {
+    const { data } = await supabase
+      .from('booked_seats')
+      .select('admitted_at')
+      .eq('showtime_id', showtimeId);
+
+    setAdmission({
+      admitted: (data || []).filter(seat => seat.admitted_at).length,
+      total: data?.length ?? 0,
+    });
+  };
+
+  const timeZone = showtimes.find(showtime => showtime.id === showtimeId)?.theater_halls.cinemas.timezone;
+
+  const checkIn = async (token: string) => {
+    if (!showtimeId || checking || !token.trim()) return;
+
+    setChecking(true);
+    const { data, error } = await supabase.rpc('check_in_ticket', {
+      _token: token.trim(),
+      _showtime_id: showtimeId,
+    });
+
+    const result: ScanResult = error
+      ? { ok: false, title: 'Not admitted', description: describeRefusal(error, timeZone), at: new Date() }
+      : {
+          ok: true,
+          title: `Admit ${data[0].seats.length}`,
+          description: `Seats ${data[0].seats.join(', ')}${data[0].customer_name ? ` · ${data[0].customer_name}` : ''}`,
+          at: new Date(),
+        };
+
+    setResults(prev => [result, ...prev].slice(0, 10));
+    setChecking(false);
+    if (!error) {
+      setManualCode('');
+      fetchAdmission();
+    }
+  };
+
+  const latest = results[0];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8 max-w-xl space-y-6">
+        <h1 className="text-3xl font-bold">Check-in</h1>
+
+        <div className="grid grid-cols-[10rem_1fr] gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="checkin-date">Date</Label>
+            <Input id="checkin-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Showtime</Label>
+            <Select value={showtimeId} onValueChange={setShowtimeId}>
+              <SelectTrigger>
+                <SelectValue placeholder={showtimes.length === 0 ? 'No showtimes on this date' : 'Select a showtime'} />
+              </SelectTrigger>
+              <SelectContent>
+                {showtimes.map((showtime) => (
+                  <SelectItem key={showtime.id} value={showtime.id}>
+                    {showtime.show_time.slice(0, 5)} · {showtime.movies.title} · {formatHallName(showtime.theater_halls)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {showtimeId && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {admission.admitted} of {admission.total} booked seats admitted
+            </p>
+
+            <QrScanner onScan={checkIn} paused={checking} />
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                checkIn(manualCode);
+              }}
+              className="flex gap-2"
+            >
+              <Input
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value)}
+                placeholder="Or paste the ticket code"
+                aria-label="Ticket code"
+              />
+              <Button type="submit" disabled={checking || !manualCode.trim()}>
+                {checking ? 'Checking...' : 'Check in'}
+              </Button>
+            </form>
+
+            {latest && (
+              <Card
+                className={cn(
+                  'p-6 flex items-center gap-4',
+                  latest.ok ? 'border-emerald-500 bg-emerald-500/10' : 'border-destructive bg-destructive/10'
+                )}
+              >
+                {latest.ok ? (
+                  <CheckCircle2 className="w-10 h-10 text-emerald-500 shrink-0" />
+                ) : (
+                  <XCircle className="w-10 h-10 text-destructive shrink-0" />
+                )}
+                <div>
+                  <p className="text-xl font-bold">{latest.title}</p>
+                  <p className="text-sm">{latest.description}</p>
+                </div>
+              </Card>
+            )}
+
+            {results.length > 1 && (
+              <div className="space-y-2">
+                <h2 className="text-sm font-semibold text-muted-foreground">Earlier scans</h2>
+                {results.slice(1).map((result) => (
+                  <div key={result.at.getTime()} className="flex items-center gap-2 text-sm">
+                    {result.ok ? (
+                      <CheckCircle2 className="w-4 h-4 text-emerald-500" />
+                    ) : (
+                      <XCircle className="w-4 h-4 text-destructive" />
+                    )}
+                    <span className="text-muted-foreground">{formatVenueTime(result.at, timeZone, 'HH:mm:ss')}</span>
+                    <span>{result.description}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CheckIn;
@@ -0,0 +1,246 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Navbar } from '@/components/Navbar';
+import { ConcessionLines } from '@/components/ConcessionLines';
+import { TicketBreakdown } from '@/components/TicketBreakdown';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Calendar, Clock, CreditCard, Ticket } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { formatCountdown, useCountdown } from '@/hooks/use-countdown';
+import { getBookingStatusVariant } from '@/lib/bookings';
+import { formatHallName } from '@/lib/cinemas';
+import { getErrorMessage } from '@/lib/errors';
+import { toTicketBreakdown } from '@/lib/ticketCategories';
+import { MOCK_SCENARIOS } from '@/lib/mockPaymentProvider';
+import { MockScenario, getPaymentProvider, payForBooking } from '@/lib/payments';
+import type { Json } from '@/integrations/supabase/types';
+
+interface CheckoutBooking {
+  id: string;
+  booking_status: string;
+  payment_due_at: string | null;
+  seats: string[];
+  showtime_id: string;
+  total_price: number;
+  ticket_breakdown: Json;
+  promo_code: string | null;
+  discount_amount: number;
+  booking_concessions: { id: string; name: string; quantity: number; unit_price: number }[];
+  showtimes: {
+    show_date: string;
+    show_time: string;
+    movies: { title: string };
+    theater_halls: { name: string; cinemas: { name: string } };
+  };
+}
+
+const Checkout = () => {
+  const { bookingId } = useParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const provider = getPaymentProvider();
+  const [booking, setBooking] = useState<CheckoutBooking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [paying, setPaying] = useState(false);
+  const [scenario, setScenario] = useState<MockScenario>('success');
+  const [lastFailure, setLastFailure] = useState<string | null>(null);
+
+  const dueAt = useMemo(
+    () => (booking?.payment_due_at ? new Date(booking.payment_due_at) : null),
+    [booking?.payment_due_at]
+  );
+  const secondsLeft = useCountdown(booking?.booking_status === 'pending' ? dueAt : null);
+  const expired = secondsLeft === 0;
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    if (bookingId) fetchBooking();
+  }, [user, bookingId]);
+
+  const fetchBooking = async () => {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(`
+        id, booking_status, payment_due_at, seats, showtime_id, total_price, ticket_breakdown, promo_code, discount_amount,
+        booking_concessions (id, name, quantity, unit_price),
+        showtimes (show_date, show_time, movies (title), theater_halls (name, cinemas (name)))
+      `)
+      .eq('id', bookingId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      toast({
+        title: 'Error loading booking',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+    setBooking(data);
+    setLoading(false);
+    return data;
+  };
+
+  const handlePay = async () => {
+    if (!booking) return;
+
+    setPaying(true);
+    setLastFailure(null);
+    try {
+      const outcome = await payForBooking(provider, booking.id, scenario);
+      // The server has the final say, e.g. when the payment window closed mid-payment
+      const updated = await fetchBooking();
+
+      if (outcome.status === 'paid' && updated?.booking_status === 'confirmed') {
+        toast({
+          title: 'Booking confirmed!',
+          description: `Your ${booking.seats.length} seat(s) have been booked successfully.`,
+        });
+        navigate(`/tickets/${booking.id}`);
+        return;
+      }
+
+      setLastFailure(outcome.status === 'failed' ? outcome.reason : 'The payment window expired');
+    } catch (error) {
+      setLastFailure(getErrorMessage(error));
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container mx-auto px-4 py-12 text-center">
+          <p className="text-muted-foreground">Loading checkout...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container mx-auto px-4 py-12 text-center">
+          <p className="text-muted-foreground">Booking not found</p>
+        </div>
+      </div>
+    );
+  }
+
+  const payable = booking.booking_status === 'pending' && !expired;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8 max-w-md space-y-6">
+        <h1 className="text-3xl font-bold">Checkout</h1>
+
+        <Card className="p-6 space-y-4">
+          <div className="flex items-start justify-between">
+            <h2 className="text-xl font-bold">{booking.showtimes.movies.title}</h2>
+            <Badge variant={getBookingStatusVariant(booking.booking_status)}>{booking.booking_status}</Badge>
+          </div>
+          <div className="space-y-2 text-sm">
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Calendar className="w-4 h-4" />
+              {booking.showtimes.show_date}
+            </div>
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Clock className="w-4 h-4" />
+              {booking.showtimes.show_time.slice(0, 5)}
+            </div>
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Ticket className="w-4 h-4" />
+              {formatHallName(booking.showtimes.theater_halls)} · Seats {booking.seats.join(', ')}
+            </div>
+          </div>
+          <TicketBreakdown
+            items={toTicketBreakdown(booking.ticket_breakdown)}
+            className="pt-4 border-t border-border"
+          />
+          <ConcessionLines lines={booking.booking_concessions} className="pt-4 border-t border-border" />
+          {payable && (
+            <Link to={`/checkout/${booking.id}/add-ons`} className="block text-sm text-primary hover:underline">
+              {booking.booking_concessions.length > 0 ? 'Change snacks & drinks' : 'Add snacks & drinks'}
+            </Link>
+          )}
+          {booking.promo_code && (
+            <div className="flex justify-between items-center pt-4 border-t border-border text-sm">
+              <span className="text-muted-foreground">Promo {booking.promo_code}</span>
+              <span>−${Number(booking.discount_amount).toFixed(2)}</span>
+            </div>
+          )}
+          <div className="flex justify-between items-center pt-4 border-t border-border">
+            <span className="text-muted-foreground">Total</span>
+            <span className="text-2xl font-bold text-primary">${Number(booking.total_price).toFixed(2)}</span>
+          </div>
+        </Card>
+
+        {booking.booking_status === 'confirmed' ? (
+          <Button asChild className="w-full">
+            <Link to={`/tickets/${booking.id}`}>View Ticket</Link>
+          </Button>
+        ) : payable ? (
+          <Card className="p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="font-semibold flex items-center gap-2">
+                <CreditCard className="w-4 h-4" />
+                {provider.label}
+              </h2>
+              {secondsLeft !== null && (
+                <span className="text-sm text-muted-foreground">
+                  Seats reserved for {formatCountdown(secondsLeft)}
+                </span>
+              )}
+            </div>
+
+            {provider.id === 'mock' && (
+              <RadioGroup value={scenario} onValueChange={(value) => setScenario(value as MockScenario)}>
+                {MOCK_SCENARIOS.map((option) => (
+                  <div key={option.value} className="flex items-start gap-2">
+                    <RadioGroupItem value={option.value} id={`scenario-${option.value}`} className="mt-1" />
+                    <Label htmlFor={`scenario-${option.value}`} className="font-normal">
+                      <span className="font-medium">{option.label}</span>
+                      <span className="block text-xs text-muted-foreground">{option.description}</span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            )}
+
+            {lastFailure && <p className="text-sm text-destructive">Payment failed: {lastFailure}</p>}
+
+            <Button className="w-full" size="lg" onClick={handlePay} disabled={paying}>
+              {paying ? 'Processing payment...' : `Pay $${Number(booking.total_price).toFixed(2)}`}
+            </Button>
+          </Card>
+        ) : (
+          <Card className="p-6 space-y-4 text-center">
+            <p className="text-muted-foreground">
+              {booking.booking_status === 'cancelled'
+                ? 'This booking was cancelled.'
+                : lastFailure ?? 'This booking was not paid in time and its seats have been released.'}
+            </p>
+            <Button onClick={() => navigate(`/booking/${booking.showtime_id}`)}>Choose Seats Again</Button>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Checkout;
@@ -1,79 +1,154 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
 import { MovieCard } from '@/components/MovieCard';
 import { Navbar } from '@/components/Navbar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Film, Search } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, Film, Search, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useCinema } from '@/contexts/CinemaContext';
+import { CERTIFICATIONS, MOVIE_FORMATS, formatLanguage } from '@/lib/movieMetadata';
 
-interface Movie {
-  id: string;
-  title: string;
-  poster_url: string | null;
-  genres: string[];
-  duration: number;
-}
+type MovieResult = Database['public']['Functions']['search_movies']['Returns'][number];
+
+type CatalogSection = 'now_showing' | 'coming_soon' | 'archive';
+
+const SECTIONS: { value: CatalogSection; label: string }[] = [
+  { value: 'now_showing', label: 'Now Showing' },
+  { value: 'coming_soon', label: 'Coming Soon' },
+  { value: 'archive', label: 'Archive' },
+];
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Duration filters, kept in the URL as ?min=&max= so any range can be linked to
+const DURATION_RANGES = [
+  { value: 'any', label: 'Any length', min: null, max: null },
+  { value: 'short', label: 'Under 90 min', min: null, max: 89 },
+  { value: 'medium', label: '90 min – 2 h', min: 90, max: 120 },
+  { value: 'long', label: 'Over 2 h', min: 121, max: null },
+];
+
+const toNumber = (value: string | null) => (value && /^\d+$/.test(value) ? Number(value) : null);
 
 const Index = () => {
-  const [movies, setMovies] = useState<Movie[]>([]);
-  const [filteredMovies, setFilteredMovies] = useState<Movie[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedGenre, setSelectedGenre] = useState<string>('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') ?? '';
+  const genre = searchParams.get('genre') ?? '';
+  const minDuration = toNumber(searchParams.get('min'));
+  const maxDuration = toNumber(searchParams.get('max'));
+  const showingOn = searchParams.get('date') ?? '';
+  const certification = searchParams.get('rating') ?? '';
+  const language = searchParams.get('lang') ?? '';
+  const movieFormat = searchParams.get('format') ?? '';
+  const section: CatalogSection = SECTIONS.some(s => s.value === searchParams.get('section'))
+    ? (searchParams.get('section') as CatalogSection)
+    : 'now_showing';
+  const page = Math.max(toNumber(searchParams.get('page')) ?? 1, 1);
+
+  const [searchInput, setSearchInput] = useState(query);
+  const [movies, setMovies] = useState<MovieResult[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [genres, setGenres] = useState<string[]>([]);
+  const [languages, setLanguages] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
+  const { cinema, cinemaId } = useCinema();
   const { toast } = useToast();
-  const navigate = useNavigate();
+
+  // Any filter change starts again from the first page
+  const updateParams = (changes: Record<string, string | null>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) next.set(key, value);
+        else next.delete(key);
+      }
+      if (!('page' in changes)) next.delete('page');
+      return next;
+    }, { replace: true });
+  };
 
   useEffect(() => {
-    fetchMovies();
+    supabase.rpc('list_movie_genres').then(({ data }) => setGenres(data || []));
+    supabase.rpc('list_movie_languages').then(({ data }) => setLanguages(data || []));
   }, []);
 
+  // Follow the URL when it changes underneath us, e.g. on back/forward
+  useEffect(() => {
+    setSearchInput(query);
+  }, [query]);
+
   useEffect(() => {
-    filterMovies();
-  }, [searchTerm, selectedGenre, movies]);
-
-  const fetchMovies = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('movies')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setMovies(data || []);
-      setFilteredMovies(data || []);
-    } catch (error) {
-      toast({
-        title: 'Error loading movies',
-        description: 'Please try again later',
-        variant: 'destructive',
+    if (searchInput.trim() === query) return;
+    const timer = setTimeout(() => updateParams({ q: searchInput.trim() || null }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    let stale = false;
+
+    const searchMovies = async () => {
+      setLoading(true);
+      const { data, error } = await supabase.rpc('search_movies', {
+        _query: query || null,
+        _genre: genre || null,
+        _min_duration: minDuration,
+        _max_duration: maxDuration,
+        _showing_on: showingOn || null,
+        _cinema_id: cinemaId,
+        _limit: PAGE_SIZE,
+        _offset: (page - 1) * PAGE_SIZE,
+        _section: section,
+        _certification: certification || null,
+        _language: language || null,
+        _format: movieFormat || null,
       });
-    } finally {
-      setLoading(false);
-    }
-  };
+      if (stale) return;
 
-  const filterMovies = () => {
-    let filtered = movies;
+      if (error) {
+        toast({
+          title: 'Error loading movies',
+          description: 'Please try again later',
+          variant: 'destructive',
+        });
+      } else {
+        setMovies(data || []);
+        setTotalCount(data?.[0]?.total_count ?? 0);
+      }
+      setLoading(false);
+    };
 
-    if (searchTerm) {
-      filtered = filtered.filter(movie =>
-        movie.title.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
+    searchMovies();
+    return () => {
+      stale = true;
+    };
+  }, [query, genre, minDuration, maxDuration, showingOn, certification, language, movieFormat, page, cinemaId, section]);
 
-    if (selectedGenre) {
-      filtered = filtered.filter(movie =>
-        movie.genres.includes(selectedGenre)
-      );
-    }
+  const durationRange =
+    DURATION_RANGES.find(range => range.min === minDuration && range.max === maxDuration)?.value ?? 'custom';
+  const pageCount = Math.max(Math.ceil(totalCount / PAGE_SIZE), 1);
+  const hasFilters = !!(
+    query || genre || minDuration !== null || maxDuration !== null || showingOn || certification || language || movieFormat
+  );
 
-    setFilteredMovies(filtered);
+  const getEmptyMessage = () => {
+    if (hasFilters) return 'No movies match your search';
+    if (section === 'coming_soon') return 'No upcoming releases have been announced yet';
+    if (section === 'archive') return 'No past movies yet';
+    return cinema ? `Nothing is showing at ${cinema.name} right now` : 'Nothing is showing right now';
   };
 
-  const allGenres = Array.from(new Set(movies.flatMap(m => m.genres)));
-
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
@@ -105,35 +180,122 @@ const Index = () => {
       <section id="movies" className="container mx-auto px-4 py-12">
         {/* Search and Filters */}
         <div className="mb-8 space-y-4">
+          <Tabs
+            value={section}
+            onValueChange={(value) => updateParams({ section: value === 'now_showing' ? null : value })}
+          >
+            <TabsList>
+              {SECTIONS.map((option) => (
+                <TabsTrigger key={option.value} value={option.value}>{option.label}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
           <div className="flex gap-4 flex-wrap">
             <div className="relative flex-1 min-w-[200px]">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
               <Input
-                placeholder="Search movies..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search titles, people, genres and synopses..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
                 className="pl-10"
               />
             </div>
+            <Select
+              value={durationRange}
+              onValueChange={(value) => {
+                const range = DURATION_RANGES.find(r => r.value === value);
+                updateParams({ min: range?.min?.toString() ?? null, max: range?.max?.toString() ?? null });
+              }}
+            >
+              <SelectTrigger className="w-40" aria-label="Length">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DURATION_RANGES.map((range) => (
+                  <SelectItem key={range.value} value={range.value}>{range.label}</SelectItem>
+                ))}
+                {durationRange === 'custom' && (
+                  <SelectItem value="custom" disabled>
+                    {minDuration ?? 0}–{maxDuration ?? '…'} min
+                  </SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+            <Select
+              value={certification || 'any'}
+              onValueChange={(value) => updateParams({ rating: value === 'any' ? null : value })}
+            >
+              <SelectTrigger className="w-32" aria-label="Certification">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any rating</SelectItem>
+                {CERTIFICATIONS.map((option) => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={language || 'any'}
+              onValueChange={(value) => updateParams({ lang: value === 'any' ? null : value })}
+            >
+              <SelectTrigger className="w-40" aria-label="Language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any language</SelectItem>
+                {languages.map((option) => (
+                  <SelectItem key={option} value={option}>{formatLanguage(option)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={movieFormat || 'any'}
+              onValueChange={(value) => updateParams({ format: value === 'any' ? null : value })}
+            >
+              <SelectTrigger className="w-32" aria-label="Format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any format</SelectItem>
+                {MOVIE_FORMATS.map((option) => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-1">
+              <Input
+                type="date"
+                className="w-40"
+                value={showingOn}
+                onChange={(e) => updateParams({ date: e.target.value || null })}
+                aria-label="Showing on"
+              />
+              {showingOn && (
+                <Button variant="ghost" size="icon" onClick={() => updateParams({ date: null })} aria-label="Any date">
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
           </div>
-          
-          {allGenres.length > 0 && (
+
+          {genres.length > 0 && (
             <div className="flex gap-2 flex-wrap">
               <Button
-                variant={selectedGenre === '' ? 'default' : 'outline'}
+                variant={genre === '' ? 'default' : 'outline'}
                 size="sm"
-                onClick={() => setSelectedGenre('')}
+                onClick={() => updateParams({ genre: null })}
               >
                 All Genres
               </Button>
-              {allGenres.map((genre) => (
+              {genres.map((option) => (
                 <Button
-                  key={genre}
-                  variant={selectedGenre === genre ? 'default' : 'outline'}
+                  key={option}
+                  variant={genre === option ? 'default' : 'outline'}
                   size="sm"
-                  onClick={() => setSelectedGenre(genre)}
+                  onClick={() => updateParams({ genre: option })}
                 >
-                  {genre}
+                  {option}
                 </Button>
               ))}
             </div>
@@ -141,22 +303,67 @@ const Index = () => {
         </div>
 
         {/* Movies Grid */}
-        {loading ? (
+        {loading && movies.length === 0 ? (
           <div className="text-center py-12">
             <Film className="w-12 h-12 mx-auto mb-4 animate-spin text-primary" />
             <p className="text-muted-foreground">Loading movies...</p>
           </div>
-        ) : filteredMovies.length === 0 ? (
-          <div className="text-center py-12">
-            <Film className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-            <p className="text-muted-foreground">No movies found</p>
+        ) : movies.length === 0 ? (
+          <div className="text-center py-12 space-y-4">
+            <Film className="w-12 h-12 mx-auto text-muted-foreground" />
+            <p className="text-muted-foreground">{getEmptyMessage()}</p>
+            {hasFilters && (
+              <Button
+                variant="outline"
+                onClick={() => setSearchParams(section === 'now_showing' ? {} : { section }, { replace: true })}
+              >
+                Clear filters
+              </Button>
+            )}
           </div>
         ) : (
-          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
-            {filteredMovies.map((movie) => (
-              <MovieCard key={movie.id} {...movie} />
-            ))}
-          </div>
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
+              {movies.map((movie) => (
+                <MovieCard
+                  key={movie.id}
+                  id={movie.id}
+                  title={movie.title}
+                  poster_url={movie.poster_url}
+                  genres={movie.genres}
+                  duration={movie.duration}
+                  certification={movie.certification}
+                  formats={movie.formats}
+                  release_date={section === 'coming_soon' ? movie.release_date : null}
+                />
+              ))}
+            </div>
+            {pageCount > 1 && (
+              <div className="flex items-center justify-center gap-4 mt-8">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateParams({ page: page > 2 ? String(page - 1) : null })}
+                  disabled={page <= 1 || loading}
+                >
+                  <ChevronLeft className="w-4 h-4 mr-1" />
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {page} of {pageCount}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateParams({ page: String(page + 1) })}
+                  disabled={page >= pageCount || loading}
+                >
+                  Next
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </Button>
+              </div>
+            )}
+          </>
         )}
       </section>
     </div>
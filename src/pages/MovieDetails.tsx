@@ -2,22 +2,41 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Navbar } from '@/components/Navbar';
+import { TrailerDialog } from '@/components/TrailerDialog';
+import { AvailabilityBadge } from '@/components/AvailabilityBadge';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Clock, Calendar, Play, ArrowLeft } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
-import { format } from 'date-fns';
+import { useCinema } from '@/contexts/CinemaContext';
+import { useShowtimeAvailability } from '@/hooks/use-showtime-availability';
+import { cn } from '@/lib/utils';
+import { getAvailabilityState, getSalesState } from '@/lib/bookings';
+import { formatHallName } from '@/lib/cinemas';
+import { formatLanguage } from '@/lib/movieMetadata';
+import { formatVenueTime, getVenueTimeZoneNote } from '@/lib/venueTime';
+import { format, parseISO } from 'date-fns';
 
 interface Movie {
   id: string;
   title: string;
   description: string;
   poster_url: string | null;
+  poster_hero_url: string | null;
   trailer_url: string | null;
   duration: number;
   genres: string[];
+  release_date: string | null;
+  end_date: string | null;
+  certification: string | null;
+  original_language: string | null;
+  subtitles: string[];
+  director: string | null;
+  cast_members: string[];
+  release_year: number | null;
+  formats: string[];
 }
 
 interface Showtime {
@@ -25,8 +44,11 @@ interface Showtime {
   show_date: string;
   show_time: string;
   ticket_price: number;
+  sales_open_at: string;
+  sales_close_at: string;
   theater_halls: {
     name: string;
+    cinemas: { name: string; timezone: string };
   };
 }
 
@@ -34,19 +56,22 @@ const MovieDetails = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { cinema, cinemaId } = useCinema();
   const { toast } = useToast();
   const [movie, setMovie] = useState<Movie | null>(null);
   const [showtimes, setShowtimes] = useState<Showtime[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedDate, setSelectedDate] = useState<string>('');
+  const [trailerOpen, setTrailerOpen] = useState(false);
 
   useEffect(() => {
-    if (id) {
-      fetchMovieDetails();
-      fetchShowtimes();
-    }
+    if (id) fetchMovieDetails();
   }, [id]);
 
+  useEffect(() => {
+    if (id) fetchShowtimes();
+  }, [id, cinemaId]);
+
   const fetchMovieDetails = async () => {
     try {
       const { data, error } = await supabase
@@ -70,21 +95,23 @@ const MovieDetails = () => {
 
   const fetchShowtimes = async () => {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('showtimes')
-        .select('*, theater_halls(name)')
+        .select('*, theater_halls!inner(name, cinemas(name, timezone))')
         .eq('movie_id', id)
-        .gte('show_date', new Date().toISOString().split('T')[0])
-        .order('show_date')
-        .order('show_time');
+        .gt('sales_close_at', new Date().toISOString());
+
+      if (cinemaId) {
+        query = query.eq('theater_halls.cinema_id', cinemaId);
+      }
+
+      const { data, error } = await query.order('show_date').order('show_time');
 
       if (error) throw error;
       setShowtimes(data || []);
       
       // Set first available date as default
-      if (data && data.length > 0) {
-        setSelectedDate(data[0].show_date);
-      }
+      setSelectedDate(data?.[0]?.show_date ?? '');
     } catch (error) {
       console.error('Error fetching showtimes:', error);
     }
@@ -105,6 +132,8 @@ const MovieDetails = () => {
 
   const uniqueDates = Array.from(new Set(showtimes.map(s => s.show_date)));
   const filteredShowtimes = showtimes.filter(s => s.show_date === selectedDate);
+  const availability = useShowtimeAvailability(filteredShowtimes.map(s => s.id));
+  const timeZoneNote = cinema && getVenueTimeZoneNote(cinema.timezone);
 
   if (loading) {
     return (
@@ -146,7 +175,7 @@ const MovieDetails = () => {
           {/* Poster */}
           <div className="md:col-span-1">
             <img
-              src={movie.poster_url || '/placeholder.svg'}
+              src={movie.poster_hero_url || movie.poster_url || '/placeholder.svg'}
               alt={movie.title}
               className="w-full rounded-lg shadow-2xl"
             />
@@ -163,11 +192,34 @@ const MovieDetails = () => {
                   </Badge>
                 ))}
               </div>
-              <div className="flex items-center gap-4 text-muted-foreground">
+              <div className="flex flex-wrap items-center gap-4 text-muted-foreground">
+                {movie.certification && (
+                  <span className="rounded border border-muted-foreground/50 px-1.5 text-sm font-semibold">
+                    {movie.certification}
+                  </span>
+                )}
+                {movie.release_year && <span>{movie.release_year}</span>}
                 <div className="flex items-center gap-1">
                   <Clock className="w-4 h-4" />
                   <span>{movie.duration} min</span>
                 </div>
+                <div className="flex gap-1">
+                  {movie.formats.map((movieFormat) => (
+                    <Badge key={movieFormat} variant="outline">{movieFormat}</Badge>
+                  ))}
+                </div>
+                {movie.release_date && (
+                  <div className="flex items-center gap-1">
+                    <Calendar className="w-4 h-4" />
+                    <span>
+                      {parseISO(movie.release_date) > new Date() ? 'Opens' : 'Released'}{' '}
+                      {format(parseISO(movie.release_date), 'MMM d, yyyy')}
+                    </span>
+                  </div>
+                )}
+                {movie.end_date && (
+                  <span>Showing until {format(parseISO(movie.end_date), 'MMM d, yyyy')}</span>
+                )}
               </div>
             </div>
 
@@ -179,18 +231,57 @@ const MovieDetails = () => {
               </p>
             </div>
 
+            {/* Credits */}
+            {(movie.director || movie.cast_members.length > 0 || movie.original_language || movie.subtitles.length > 0) && (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-sm">
+                {movie.director && (
+                  <>
+                    <dt className="text-muted-foreground">Director</dt>
+                    <dd>{movie.director}</dd>
+                  </>
+                )}
+                {movie.cast_members.length > 0 && (
+                  <>
+                    <dt className="text-muted-foreground">Cast</dt>
+                    <dd>{movie.cast_members.join(', ')}</dd>
+                  </>
+                )}
+                {movie.original_language && (
+                  <>
+                    <dt className="text-muted-foreground">Language</dt>
+                    <dd>{formatLanguage(movie.original_language)}</dd>
+                  </>
+                )}
+                {movie.subtitles.length > 0 && (
+                  <>
+                    <dt className="text-muted-foreground">Subtitles</dt>
+                    <dd>{movie.subtitles.map(formatLanguage).join(', ')}</dd>
+                  </>
+                )}
+              </dl>
+            )}
+
             {/* Trailer */}
             {movie.trailer_url && (
-              <Button variant="outline" className="gap-2">
-                <Play className="w-4 h-4" />
-                Watch Trailer
-              </Button>
+              <>
+                <Button variant="outline" className="gap-2" onClick={() => setTrailerOpen(true)}>
+                  <Play className="w-4 h-4" />
+                  Watch Trailer
+                </Button>
+                <TrailerDialog
+                  title={movie.title}
+                  url={movie.trailer_url}
+                  open={trailerOpen}
+                  onOpenChange={setTrailerOpen}
+                />
+              </>
             )}
 
             {/* Showtimes */}
             <div>
               <h2 className="text-2xl font-semibold mb-4">Showtimes</h2>
-              
+              {timeZoneNote && <p className="text-sm text-muted-foreground -mt-2 mb-4">{timeZoneNote}</p>}
+
               {uniqueDates.length > 0 ? (
                 <>
                   {/* Date Selection */}
@@ -203,34 +294,58 @@ const MovieDetails = () => {
                         className="flex-shrink-0"
                       >
                         <Calendar className="w-4 h-4 mr-2" />
-                        {format(new Date(date), 'MMM dd')}
+                        {format(parseISO(date), 'MMM dd')}
                       </Button>
                     ))}
                   </div>
 
                   {/* Time Slots */}
                   <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                    {filteredShowtimes.map((showtime) => (
-                      <Card
-                        key={showtime.id}
-                        className="p-4 hover:border-primary cursor-pointer transition-colors"
-                        onClick={() => handleBooking(showtime.id)}
-                      >
-                        <div className="font-semibold">
-                          {showtime.show_time.slice(0, 5)}
-                        </div>
-                        <div className="text-sm text-muted-foreground">
-                          {showtime.theater_halls.name}
-                        </div>
-                        <div className="text-sm font-semibold text-primary mt-2">
-                          ${showtime.ticket_price}
-                        </div>
-                      </Card>
-                    ))}
+                    {filteredShowtimes.map((showtime) => {
+                      const salesState = getSalesState(showtime);
+                      const seats = availability[showtime.id];
+                      const bookable = salesState === 'open' && !(seats && getAvailabilityState(seats) === 'sold_out');
+
+                      return (
+                        <Card
+                          key={showtime.id}
+                          className={cn(
+                            'p-4 transition-colors',
+                            bookable ? 'hover:border-primary cursor-pointer' : 'opacity-60'
+                          )}
+                          onClick={bookable ? () => handleBooking(showtime.id) : undefined}
+                          aria-disabled={!bookable}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-semibold">{showtime.show_time.slice(0, 5)}</span>
+                            {salesState === 'open' && <AvailabilityBadge availability={seats} />}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {cinemaId ? showtime.theater_halls.name : formatHallName(showtime.theater_halls)}
+                          </div>
+                          {salesState === 'open' ? (
+                            <div className="text-sm font-semibold text-primary mt-2">
+                              ${showtime.ticket_price}
+                            </div>
+                          ) : salesState === 'not_open' ? (
+                            <div className="text-sm mt-2">
+                              <div className="font-semibold">Sales not open yet</div>
+                              <div className="text-xs text-muted-foreground">
+                                Opens {formatVenueTime(showtime.sales_open_at, showtime.theater_halls.cinemas.timezone, "MMM d 'at' HH:mm")}
+                              </div>
+                            </div>
+                          ) : (
+                            <div className="text-sm font-semibold mt-2">Sales closed</div>
+                          )}
+                        </Card>
+                      );
+                    })}
                   </div>
                 </>
               ) : (
-                <p className="text-muted-foreground">No showtimes available</p>
+                <p className="text-muted-foreground">
+                  {cinema ? `No showtimes at ${cinema.name}` : 'No showtimes available'}
+                </p>
               )}
             </div>
           </div>
@@ -4,35 +4,96 @@ import { supabase } from '@/integrations/supabase/client';
 import { Navbar } from '@/components/Navbar';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { ArrowLeft, Armchair } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle, ArrowLeft, Armchair, CalendarClock, Tag, Timer, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { formatCountdown, useCountdown } from '@/hooks/use-countdown';
 import { useAuth } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
+import { getSalesState } from '@/lib/bookings';
+import { formatHallName } from '@/lib/cinemas';
+import { getErrorMessage } from '@/lib/errors';
+import { safeParseSeatLayout, getLayoutSeats, getCurveOffset, SeatLayout } from '@/lib/seatLayout';
+import { compareSeatTypes, getSeatPrice, getSeatTypeStyle, toSeatPriceMap } from '@/lib/seatTypes';
+import { TICKET_CATEGORY_LABELS, getOfferedCategories, getTicketPrice } from '@/lib/ticketCategories';
+import { formatVenueTime } from '@/lib/venueTime';
 
 interface Seat {
   label: string;
   row: string;
-  col: number;
   type: string;
+  disabled: boolean;
+  price: number;
   isBooked: boolean;
+  isHeld: boolean;
 }
 
+const RELEASED_SEATS_POLL_MS = 15_000;
+
 const SeatSelection = () => {
   const { showtimeId } = useParams();
   const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
+  const [layout, setLayout] = useState<SeatLayout | null>(null);
+  const [layoutError, setLayoutError] = useState<string | null>(null);
   const [seats, setSeats] = useState<Seat[]>([]);
   const [selectedSeats, setSelectedSeats] = useState<string[]>([]);
+  const [seatCategories, setSeatCategories] = useState<Record<string, string>>({});
   const [showtime, setShowtime] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [booking, setBooking] = useState(false);
+  const [pendingSeat, setPendingSeat] = useState<string | null>(null);
+  const [holdExpiresAt, setHoldExpiresAt] = useState<Date | null>(null);
+  const holdSecondsLeft = useCountdown(holdExpiresAt);
+  const [promoInput, setPromoInput] = useState('');
+  const [promo, setPromo] = useState<{ code: string; description: string | null; discount: number; total: number } | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
 
   useEffect(() => {
     if (showtimeId) {
       fetchShowtimeAndSeats();
     }
-  }, [showtimeId]);
+  }, [showtimeId, user?.id]);
+
+  useEffect(() => {
+    if (!showtimeId || !user) return;
+
+    // Give held seats back when leaving the page
+    return () => {
+      releaseHolds(showtimeId);
+    };
+  }, [showtimeId, user?.id]);
+
+  // The discount depends on the tickets, so re-price an applied code whenever they change. Refetches
+  // rebuild selectedSeats with the same labels, so compare contents rather than identity.
+  const ticketsKey = JSON.stringify([
+    [...selectedSeats].sort(),
+    Object.entries(seatCategories).filter(([label]) => selectedSeats.includes(label)).sort(),
+  ]);
+  useEffect(() => {
+    if (promo && selectedSeats.length > 0) applyPromo(promo.code);
+  }, [ticketsKey]);
+
+  useEffect(() => {
+    if (holdSecondsLeft !== 0) return;
+
+    setSelectedSeats([]);
+    setHoldExpiresAt(null);
+    fetchShowtimeAndSeats();
+    toast({
+      title: 'Seat hold expired',
+      description: 'Your seats were released. Please select them again.',
+      variant: 'destructive',
+    });
+  }, [holdSecondsLeft]);
 
   useEffect(() => {
     if (!showtimeId) return;
@@ -52,18 +113,46 @@ const SeatSelection = () => {
           fetchShowtimeAndSeats();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'seat_holds',
+          filter: `showtime_id=eq.${showtimeId}`,
+        },
+        () => {
+          fetchShowtimeAndSeats();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'seat_holds',
+          filter: `showtime_id=eq.${showtimeId}`,
+        },
+        () => {
+          fetchShowtimeAndSeats();
+        }
+      )
       .subscribe();
 
+    // Realtime can't tie deletes to a showtime, so seats other customers release are picked up by polling
+    const poll = window.setInterval(fetchShowtimeAndSeats, RELEASED_SEATS_POLL_MS);
+
     return () => {
+      window.clearInterval(poll);
       supabase.removeChannel(channel);
     };
-  }, [showtimeId]);
+  }, [showtimeId, user?.id]);
 
   const fetchShowtimeAndSeats = async () => {
     try {
       const { data: showtimeData, error: showtimeError } = await supabase
         .from('showtimes')
-        .select('*, movies(*), theater_halls(*)')
+        .select('*, movies(*), theater_halls(*, cinemas(name, timezone))')
         .eq('id', showtimeId)
         .single();
 
@@ -80,23 +169,44 @@ const SeatSelection = () => {
 
       const bookedSeatLabels = new Set(bookedSeats?.map(s => s.seat_label) || []);
 
-      // Generate seat layout
-      const layout = showtimeData.theater_halls.seat_layout as any;
-      const allSeats: Seat[] = [];
-
-      layout.seats.forEach((rowData: any) => {
-        for (let col = 1; col <= rowData.cols; col++) {
-          const seatLabel = `${rowData.row}${col}`;
-          allSeats.push({
-            label: seatLabel,
-            row: rowData.row,
-            col,
-            type: rowData.type,
-            isBooked: bookedSeatLabels.has(seatLabel),
-          });
-        }
-      });
+      // Fetch active holds, splitting our own from other customers'
+      const { data: holds, error: holdsError } = await supabase
+        .from('seat_holds')
+        .select('seat_label, user_id, expires_at')
+        .eq('showtime_id', showtimeId)
+        .gt('expires_at', new Date().toISOString());
+
+      if (holdsError) throw holdsError;
+
+      const ownHolds = holds?.filter(h => h.user_id === user?.id) || [];
+      const heldSeatLabels = new Set(
+        holds?.filter(h => h.user_id !== user?.id).map(h => h.seat_label) || []
+      );
+
+      setSelectedSeats(ownHolds.map(h => h.seat_label));
+      setHoldExpiresAt(
+        ownHolds.length > 0
+          ? new Date(Math.max(...ownHolds.map(h => new Date(h.expires_at).getTime())))
+          : null
+      );
+
+      // Generate seat layout, reading both the legacy and v2 formats
+      const { layout: hallLayout, error: hallLayoutError } = safeParseSeatLayout(
+        showtimeData.theater_halls.seat_layout
+      );
+      setLayoutError(hallLayoutError);
+      if (!hallLayout) return;
+
+      const hallMultipliers = toSeatPriceMap(showtimeData.theater_halls.seat_type_multipliers);
+      const showtimePrices = toSeatPriceMap(showtimeData.seat_type_prices);
+      const allSeats: Seat[] = getLayoutSeats(hallLayout).map(seat => ({
+        ...seat,
+        price: getSeatPrice(seat.type, showtimeData.ticket_price, hallMultipliers, showtimePrices),
+        isBooked: bookedSeatLabels.has(seat.label),
+        isHeld: heldSeatLabels.has(seat.label),
+      }));
 
+      setLayout(hallLayout);
       setSeats(allSeats);
     } catch (error) {
       toast({
@@ -109,14 +219,88 @@ const SeatSelection = () => {
     }
   };
 
-  const toggleSeat = (seatLabel: string, isBooked: boolean) => {
-    if (isBooked) return;
+  const releaseHolds = async (id: string) => {
+    await supabase.rpc('release_seats', { _showtime_id: id });
+  };
+
+  const toggleSeat = async (seat: Seat) => {
+    if (seat.isBooked || seat.isHeld || seat.disabled || pendingSeat) return;
+
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+
+    setPendingSeat(seat.label);
+    try {
+      if (selectedSeats.includes(seat.label)) {
+        const { error } = await supabase.rpc('release_seats', {
+          _showtime_id: showtimeId,
+          _seat_labels: [seat.label],
+        });
+
+        if (error) throw error;
+
+        const remaining = selectedSeats.filter(s => s !== seat.label);
+        setSelectedSeats(remaining);
+        if (remaining.length === 0) setHoldExpiresAt(null);
+      } else {
+        // Holding a seat also extends the hold on every seat already selected
+        const { data: expiresAt, error } = await supabase.rpc('hold_seat', {
+          _showtime_id: showtimeId,
+          _seat_label: seat.label,
+        });
+
+        if (error) throw error;
+
+        setSelectedSeats([...selectedSeats, seat.label]);
+        setHoldExpiresAt(new Date(expiresAt));
+      }
+    } catch (error) {
+      toast({
+        title: 'Seat unavailable',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+      fetchShowtimeAndSeats();
+    } finally {
+      setPendingSeat(null);
+    }
+  };
 
-    setSelectedSeats(prev =>
-      prev.includes(seatLabel)
-        ? prev.filter(s => s !== seatLabel)
-        : [...prev, seatLabel]
+  // Ticket category per selected seat; seats left out are sold as adult
+  const getSelectedCategories = () =>
+    Object.fromEntries(
+      selectedSeats.filter(label => seatCategories[label]).map(label => [label, seatCategories[label]])
     );
+
+  const applyPromo = async (code: string) => {
+    setApplyingPromo(true);
+    const { data, error } = await supabase.rpc('preview_promo_code', {
+      _showtime_id: showtimeId,
+      _seat_labels: selectedSeats,
+      _code: code,
+      _ticket_categories: getSelectedCategories(),
+    });
+    setApplyingPromo(false);
+
+    if (error || !data?.[0]) {
+      setPromo(null);
+      toast({
+        title: 'Promo code not applied',
+        description: getErrorMessage(error),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setPromo({
+      code: data[0].code,
+      description: data[0].description,
+      discount: Number(data[0].discount_amount),
+      total: Number(data[0].total),
+    });
+    setPromoInput('');
   };
 
   const handleBooking = async () => {
@@ -124,44 +308,37 @@ const SeatSelection = () => {
 
     setBooking(true);
     try {
-      // Create booking
-      const totalPrice = showtime.ticket_price * selectedSeats.length;
-      const { data: bookingData, error: bookingError } = await supabase
-        .from('bookings')
-        .insert({
-          user_id: user.id,
-          showtime_id: showtimeId,
-          seats: selectedSeats,
-          total_price: totalPrice,
-        })
-        .select()
-        .single();
-
-      if (bookingError) throw bookingError;
-
-      // Reserve seats
-      const seatReservations = selectedSeats.map(seatLabel => ({
-        showtime_id: showtimeId,
-        seat_label: seatLabel,
-        booking_id: bookingData.id,
-      }));
-
-      const { error: seatsError } = await supabase
-        .from('booked_seats')
-        .insert(seatReservations);
+      // Seats are validated, priced and reserved atomically on the server;
+      // the booking stays pending until it is paid for at checkout
+      const { data, error } = await supabase.rpc('book_seats', {
+        _showtime_id: showtimeId,
+        _seat_labels: selectedSeats,
+        _promo_code: promo?.code ?? null,
+        _ticket_categories: getSelectedCategories(),
+      });
 
-      if (seatsError) throw seatsError;
+      if (error) throw error;
 
-      toast({
-        title: 'Booking confirmed!',
-        description: `Your ${selectedSeats.length} seat(s) have been booked successfully.`,
-      });
+      setHoldExpiresAt(null);
+      navigate(`/checkout/${data.id}/add-ons`);
+    } catch (error) {
+      const conflict = error as { code?: string; details?: string };
+      if (conflict.code === '23505' && conflict.details) {
+        // Someone else got there first: drop the taken seats and refresh the map
+        const taken = conflict.details.split(',');
+        setSelectedSeats(prev => prev.filter(s => !taken.includes(s)));
+        fetchShowtimeAndSeats();
+        toast({
+          title: 'Seats no longer available',
+          description: `${taken.join(', ')} ${taken.length === 1 ? 'was' : 'were'} just booked by someone else. Please pick different seats.`,
+          variant: 'destructive',
+        });
+        return;
+      }
 
-      navigate('/bookings');
-    } catch (error: any) {
       toast({
         title: 'Booking failed',
-        description: error.message || 'Please try again',
+        description: getErrorMessage(error),
         variant: 'destructive',
       });
     } finally {
@@ -169,7 +346,7 @@ const SeatSelection = () => {
     }
   };
 
-  if (loading || !showtime) {
+  if (loading || !showtime || (!layout && !layoutError)) {
     return (
       <div className="min-h-screen bg-background">
         <Navbar />
@@ -180,8 +357,76 @@ const SeatSelection = () => {
     );
   }
 
-  const rows = Array.from(new Set(seats.map(s => s.row)));
-  const totalPrice = showtime.ticket_price * selectedSeats.length;
+  if (layoutError) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container mx-auto px-4 py-12">
+          <Card className="max-w-xl mx-auto p-6 text-center">
+            <AlertTriangle className="w-10 h-10 mx-auto mb-4 text-destructive" />
+            <h1 className="text-xl font-bold mb-2">Seat map unavailable</h1>
+            <p className="text-muted-foreground mb-1">
+              The seat map for {showtime.theater_halls.name} is misconfigured, so seats can't be booked right now.
+            </p>
+            <p className="text-sm text-muted-foreground mb-6">{layoutError}</p>
+            <Button variant="outline" onClick={() => navigate(-1)}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const salesState = getSalesState(showtime);
+  if (salesState !== 'open') {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container mx-auto px-4 py-12">
+          <Card className="max-w-xl mx-auto p-6 text-center">
+            <CalendarClock className="w-10 h-10 mx-auto mb-4 text-muted-foreground" />
+            <h1 className="text-xl font-bold mb-2">
+              {salesState === 'not_open' ? 'Sales not open yet' : 'Sales closed'}
+            </h1>
+            <p className="text-muted-foreground mb-6">
+              {salesState === 'not_open'
+                ? `Tickets for ${showtime.movies.title} on ${showtime.show_date} go on sale ${formatVenueTime(
+                    showtime.sales_open_at,
+                    showtime.theater_halls.cinemas.timezone,
+                    "MMM d 'at' HH:mm"
+                  )}.`
+                : `Tickets for ${showtime.movies.title} on ${showtime.show_date} at ${showtime.show_time.slice(0, 5)} are no longer on sale.`}
+            </p>
+            <Button variant="outline" onClick={() => navigate(-1)}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const seatsByLabel = new Map(seats.map(s => [s.label, s]));
+  const seatTypesInHall = Array.from(
+    new Set(seats.filter(s => !s.disabled).map(s => s.type))
+  ).sort(compareSeatTypes);
+  const categoryPrices = toSeatPriceMap(showtime.ticket_category_prices);
+  const offeredCategories = getOfferedCategories(categoryPrices);
+  const selectedTickets = selectedSeats
+    .map(label => seatsByLabel.get(label))
+    .filter(Boolean)
+    .map(seat => {
+      const category = seatCategories[seat.label] ?? 'adult';
+      return {
+        seat,
+        category,
+        price: getTicketPrice(seat.price, category, showtime.ticket_price, categoryPrices),
+      };
+    });
+  const totalPrice = selectedTickets.reduce((sum, ticket) => sum + ticket.price, 0);
 
   return (
     <div className="min-h-screen bg-background">
@@ -202,7 +447,7 @@ const SeatSelection = () => {
           <Card className="p-6 mb-8">
             <h1 className="text-2xl font-bold mb-2">{showtime.movies.title}</h1>
             <p className="text-muted-foreground">
-              {showtime.theater_halls.name} • {showtime.show_date} • {showtime.show_time.slice(0, 5)}
+              {formatHallName(showtime.theater_halls)} • {showtime.show_date} • {showtime.show_time.slice(0, 5)}
             </p>
           </Card>
 
@@ -214,46 +459,72 @@ const SeatSelection = () => {
           </div>
 
           {/* Seats */}
-          <div className="mb-8 space-y-4">
-            {rows.map(row => {
-              const rowSeats = seats.filter(s => s.row === row);
-              return (
-                <div key={row} className="flex justify-center items-center gap-2">
-                  <span className="text-muted-foreground w-6">{row}</span>
-                  <div className="flex gap-2">
-                    {rowSeats.map(seat => (
+          <div className="mb-8 space-y-4 overflow-x-auto">
+            {layout.rows.map(row => (
+              <div key={row.label} className="flex justify-center items-center gap-2 w-max mx-auto">
+                <span className="text-muted-foreground w-6">{row.label}</span>
+                <div className="flex gap-2">
+                  {row.cells.map((cell, index) => {
+                    const offset = getCurveOffset(layout.curvature, index, row.cells.length);
+                    const style = { transform: `translateY(${offset}px)` };
+
+                    if (cell.kind === 'gap') {
+                      return <div key={index} className="w-10 h-10" style={style} />;
+                    }
+                    if (cell.kind === 'aisle') {
+                      return <div key={index} className="w-6 h-10" />;
+                    }
+
+                    const seat = seatsByLabel.get(cell.label);
+                    if (!seat) return null;
+
+                    return (
                       <button
                         key={seat.label}
-                        onClick={() => toggleSeat(seat.label, seat.isBooked)}
-                        disabled={seat.isBooked}
+                        onClick={() => toggleSeat(seat)}
+                        disabled={seat.isBooked || seat.isHeld || seat.disabled || pendingSeat === seat.label}
+                        style={style}
                         className={cn(
                           'w-10 h-10 rounded-md transition-all',
                           'flex items-center justify-center',
+                          seat.disabled && 'bg-muted/30 text-muted-foreground/50 cursor-not-allowed',
                           seat.isBooked && 'bg-muted cursor-not-allowed',
-                          !seat.isBooked && !selectedSeats.includes(seat.label) && 'bg-card hover:bg-primary/20 border border-border',
+                          seat.isHeld && 'bg-muted/50 border border-dashed border-muted-foreground/40 cursor-not-allowed',
+                          !seat.disabled && !seat.isBooked && !seat.isHeld && !selectedSeats.includes(seat.label) && cn('border', getSeatTypeStyle(seat.type).className),
                           selectedSeats.includes(seat.label) && 'bg-primary text-primary-foreground'
                         )}
                         aria-label={`Seat ${seat.label}`}
+                        title={`${seat.label} • ${getSeatTypeStyle(seat.type).label} • $${seat.price.toFixed(2)}`}
                       >
-                        <Armchair className="w-5 h-5" />
+                        {seat.disabled ? <X className="w-4 h-4" /> : <Armchair className="w-5 h-5" />}
                       </button>
-                    ))}
-                  </div>
+                    );
+                  })}
                 </div>
-              );
-            })}
+              </div>
+            ))}
           </div>
 
           {/* Legend */}
-          <div className="flex justify-center gap-6 mb-8 text-sm">
-            <div className="flex items-center gap-2">
-              <div className="w-6 h-6 bg-card border border-border rounded" />
-              <span>Available</span>
-            </div>
+          <div className="flex flex-wrap justify-center gap-6 mb-4 text-sm">
+            {seatTypesInHall.map(type => (
+              <div key={type} className="flex items-center gap-2">
+                <div className={cn('w-6 h-6 border rounded', getSeatTypeStyle(type).className)} />
+                <span>
+                  {getSeatTypeStyle(type).label} • ${seats.find(s => s.type === type)?.price.toFixed(2)}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap justify-center gap-6 mb-8 text-sm">
             <div className="flex items-center gap-2">
               <div className="w-6 h-6 bg-primary rounded" />
               <span>Selected</span>
             </div>
+            <div className="flex items-center gap-2">
+              <div className="w-6 h-6 bg-muted/50 border border-dashed border-muted-foreground/40 rounded" />
+              <span>Held</span>
+            </div>
             <div className="flex items-center gap-2">
               <div className="w-6 h-6 bg-muted rounded" />
               <span>Booked</span>
@@ -267,18 +538,88 @@ const SeatSelection = () => {
                 <div>
                   <p className="text-sm text-muted-foreground">Selected Seats</p>
                   <p className="font-semibold">{selectedSeats.join(', ')}</p>
+                  {holdSecondsLeft !== null && (
+                    <p className="flex items-center gap-1 text-sm text-muted-foreground mt-1">
+                      <Timer className="w-4 h-4" />
+                      Held for {formatCountdown(holdSecondsLeft)}
+                    </p>
+                  )}
                 </div>
                 <div className="text-right">
                   <p className="text-sm text-muted-foreground">Total</p>
-                  <p className="text-2xl font-bold text-primary">${totalPrice.toFixed(2)}</p>
+                  {promo && (
+                    <p className="text-sm text-muted-foreground line-through">${totalPrice.toFixed(2)}</p>
+                  )}
+                  <p className="text-2xl font-bold text-primary">
+                    ${(promo ? promo.total : totalPrice).toFixed(2)}
+                  </p>
                 </div>
               </div>
+              {offeredCategories.length > 1 && (
+                <div className="space-y-2 mb-4">
+                  {selectedTickets.map(({ seat, category, price }) => (
+                    <div key={seat.label} className="flex items-center gap-3 text-sm">
+                      <span className="w-12 font-medium">{seat.label}</span>
+                      <Select
+                        value={category}
+                        onValueChange={(value) => setSeatCategories({ ...seatCategories, [seat.label]: value })}
+                      >
+                        <SelectTrigger className="h-8 w-36" aria-label={`Ticket type for seat ${seat.label}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {offeredCategories.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {TICKET_CATEGORY_LABELS[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span className="ml-auto">${price.toFixed(2)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {promo ? (
+                <div className="flex items-center justify-between mb-4 text-sm">
+                  <span className="flex items-center gap-2">
+                    <Tag className="w-4 h-4 text-primary" />
+                    <span className="font-medium">{promo.code}</span>
+                    {promo.description && <span className="text-muted-foreground">{promo.description}</span>}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    −${promo.discount.toFixed(2)}
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setPromo(null)} aria-label="Remove promo code">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </span>
+                </div>
+              ) : (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (promoInput.trim()) applyPromo(promoInput.trim());
+                  }}
+                  className="flex gap-2 mb-4"
+                >
+                  <Input
+                    value={promoInput}
+                    onChange={(e) => setPromoInput(e.target.value)}
+                    placeholder="Promo code"
+                    aria-label="Promo code"
+                    className="uppercase"
+                  />
+                  <Button type="submit" variant="outline" disabled={applyingPromo || !promoInput.trim()}>
+                    {applyingPromo ? 'Applying...' : 'Apply'}
+                  </Button>
+                </form>
+              )}
               <Button 
                 onClick={handleBooking} 
                 className="w-full"
                 disabled={booking}
               >
-                {booking ? 'Processing...' : 'Confirm Booking'}
+                {booking ? 'Processing...' : 'Continue'}
               </Button>
             </Card>
           )}
@@ -0,0 +1,263 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { addDays, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Navbar } from '@/components/Navbar';
+import { AvailabilityBadge } from '@/components/AvailabilityBadge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { CalendarDays, Clock, Film } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCinema } from '@/contexts/CinemaContext';
+import { ShowtimeAvailability, useShowtimeAvailability } from '@/hooks/use-showtime-availability';
+import { cn } from '@/lib/utils';
+import { getAvailabilityState, getSalesState } from '@/lib/bookings';
+import { formatHallName } from '@/lib/cinemas';
+import { formatVenueTime, getVenueTimeZoneNote, getVenueToday } from '@/lib/venueTime';
+
+interface Showtime {
+  id: string;
+  show_time: string;
+  ticket_price: number;
+  sales_open_at: string;
+  sales_close_at: string;
+  movies: {
+    id: string;
+    title: string;
+    poster_url: string | null;
+    poster_thumbnail_url: string | null;
+    duration: number;
+    genres: string[];
+  };
+  theater_halls: {
+    name: string;
+    cinemas: { name: string; timezone: string };
+  };
+}
+
+interface MovieSchedule {
+  movie: Showtime['movies'];
+  showtimes: Showtime[];
+}
+
+const DATE_STRIP_DAYS = 7;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const describeShowtime = (showtime: Showtime, seats: ShowtimeAvailability | undefined) => {
+  const salesState = getSalesState(showtime);
+  if (salesState === 'not_open') {
+    return `Opens ${formatVenueTime(showtime.sales_open_at, showtime.theater_halls.cinemas.timezone, "MMM d 'at' HH:mm")}`;
+  }
+  if (salesState === 'closed') return 'Sales closed';
+  if (seats && getAvailabilityState(seats) === 'filling_fast') {
+    return `$${showtime.ticket_price} · ${seats.available} left`;
+  }
+  return `$${showtime.ticket_price}`;
+};
+
+const groupByMovie = (showtimes: Showtime[]) => {
+  const groups = new Map<string, MovieSchedule>();
+  for (const showtime of showtimes) {
+    const group = groups.get(showtime.movies.id);
+    if (group) group.showtimes.push(showtime);
+    else groups.set(showtime.movies.id, { movie: showtime.movies, showtimes: [showtime] });
+  }
+  return Array.from(groups.values()).sort((a, b) => a.movie.title.localeCompare(b.movie.title));
+};
+
+const Showtimes = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { cinema, cinemaId } = useCinema();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [showtimes, setShowtimes] = useState<Showtime[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Dates are the cinema's calendar days; without a cinema, the viewer's
+  const today = cinema ? getVenueToday(cinema.timezone) : format(new Date(), 'yyyy-MM-dd');
+  const dateParam = searchParams.get('date');
+  const date = dateParam && ISO_DATE.test(dateParam) ? dateParam : today;
+  const dateStrip = Array.from({ length: DATE_STRIP_DAYS }, (_, i) => format(addDays(parseISO(today), i), 'yyyy-MM-dd'));
+
+  useEffect(() => {
+    let stale = false;
+
+    const fetchSchedule = async () => {
+      setLoading(true);
+      try {
+        let query = supabase
+          .from('showtimes')
+          .select(`
+            id, show_time, ticket_price, sales_open_at, sales_close_at,
+            movies(id, title, poster_url, poster_thumbnail_url, duration, genres),
+            theater_halls!inner(name, cinemas(name, timezone))
+          `)
+          .eq('show_date', date)
+          .gt('starts_at', new Date().toISOString());
+
+        if (cinemaId) {
+          query = query.eq('theater_halls.cinema_id', cinemaId);
+        }
+
+        const { data, error } = await query.order('show_time');
+        if (error) throw error;
+
+        if (stale) return;
+        setShowtimes(data || []);
+      } catch (error) {
+        if (stale) return;
+        toast({
+          title: 'Error loading showtimes',
+          description: 'Please try again later',
+          variant: 'destructive',
+        });
+      }
+      setLoading(false);
+    };
+
+    fetchSchedule();
+    return () => {
+      stale = true;
+    };
+  }, [date, cinemaId]);
+
+  const setDate = (value: string) => {
+    setSearchParams(value && value !== today ? { date: value } : {}, { replace: true });
+  };
+
+  const handleBooking = (showtimeId: string) => {
+    if (!user) {
+      toast({
+        title: 'Please sign in',
+        description: 'You need to be signed in to book tickets',
+        variant: 'destructive',
+      });
+      navigate('/auth');
+      return;
+    }
+    navigate(`/booking/${showtimeId}`);
+  };
+
+  const availability = useShowtimeAvailability(showtimes.map(showtime => showtime.id));
+  const schedule = groupByMovie(showtimes);
+  const timeZoneNote = cinema && getVenueTimeZoneNote(cinema.timezone);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <h1 className="text-4xl font-bold mb-2">Showtimes</h1>
+          <p className="text-muted-foreground">
+            {cinema ? `Everything showing at ${cinema.name}` : 'Everything showing at every cinema'}
+          </p>
+          {timeZoneNote && <p className="text-sm text-muted-foreground mt-1">{timeZoneNote}</p>}
+        </div>
+
+        {/* Date Selection */}
+        <div className="flex gap-2 mb-8 overflow-x-auto pb-2">
+          {dateStrip.map((day, index) => (
+            <Button
+              key={day}
+              variant={date === day ? 'default' : 'outline'}
+              onClick={() => setDate(day)}
+              className="flex-shrink-0"
+            >
+              {index === 0 ? 'Today' : format(parseISO(day), 'EEE, MMM dd')}
+            </Button>
+          ))}
+          <Input
+            type="date"
+            className="w-40 flex-shrink-0"
+            min={today}
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            aria-label="Pick a date"
+          />
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <Film className="w-12 h-12 mx-auto mb-4 animate-spin text-primary" />
+            <p className="text-muted-foreground">Loading showtimes...</p>
+          </div>
+        ) : schedule.length === 0 ? (
+          <div className="text-center py-12">
+            <CalendarDays className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              {cinema
+                ? `No showtimes at ${cinema.name} on ${format(parseISO(date), 'EEEE, MMM d')}`
+                : `No showtimes on ${format(parseISO(date), 'EEEE, MMM d')}`}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {schedule.map(({ movie, showtimes: movieShowtimes }) => (
+              <Card key={movie.id} className="p-4 flex gap-4">
+                <Link to={`/movie/${movie.id}`} className="flex-shrink-0">
+                  <img
+                    src={movie.poster_thumbnail_url || movie.poster_url || '/placeholder.svg'}
+                    alt={movie.title}
+                    className="w-20 aspect-[2/3] rounded object-cover"
+                  />
+                </Link>
+                <div className="flex-1 min-w-0 space-y-3">
+                  <div>
+                    <Link to={`/movie/${movie.id}`} className="text-xl font-bold hover:text-primary">
+                      {movie.title}
+                    </Link>
+                    <div className="flex flex-wrap items-center gap-2 mt-1 text-sm text-muted-foreground">
+                      <Clock className="w-4 h-4" />
+                      <span>{movie.duration} min</span>
+                      {movie.genres.slice(0, 3).map((genre) => (
+                        <Badge key={genre} variant="secondary">{genre}</Badge>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Time Chips */}
+                  <div className="flex flex-wrap gap-2">
+                    {movieShowtimes.map((showtime) => {
+                      const seats = availability[showtime.id];
+                      const salesOpen = getSalesState(showtime) === 'open';
+                      const bookable = salesOpen && !(seats && getAvailabilityState(seats) === 'sold_out');
+
+                      return (
+                        <button
+                          key={showtime.id}
+                          type="button"
+                          disabled={!bookable}
+                          onClick={() => handleBooking(showtime.id)}
+                          className={cn(
+                            'rounded-md border px-3 py-2 text-left transition-colors',
+                            bookable ? 'hover:border-primary' : 'opacity-60 cursor-not-allowed'
+                          )}
+                        >
+                          <div className="flex items-center gap-2">
+                            <span className="font-semibold">{showtime.show_time.slice(0, 5)}</span>
+                            {salesOpen && <AvailabilityBadge availability={seats} className="px-1.5 py-0 text-[10px]" />}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {cinemaId ? showtime.theater_halls.name : formatHallName(showtime.theater_halls)}
+                          </div>
+                          <div className="text-xs mt-1">{describeShowtime(showtime, seats)}</div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Showtimes;
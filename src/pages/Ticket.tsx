@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { QRCodeSVG } from 'qrcode.react';
+import { supabase } from '@/integrations/supabase/client';
+import { Navbar } from '@/components/Navbar';
+import { ConcessionLines } from '@/components/ConcessionLines';
+import { TicketBreakdown } from '@/components/TicketBreakdown';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Calendar, Clock, Ticket as TicketIcon } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getBookingStatusVariant } from '@/lib/bookings';
+import { formatHallName } from '@/lib/cinemas';
+import { getErrorMessage } from '@/lib/errors';
+import { toTicketBreakdown } from '@/lib/ticketCategories';
+import type { Json } from '@/integrations/supabase/types';
+
+interface TicketBooking {
+  id: string;
+  booking_status: string;
+  seats: string[];
+  ticket_breakdown: Json;
+  booking_concessions: { id: string; name: string; quantity: number; unit_price: number }[];
+  showtimes: {
+    show_date: string;
+    show_time: string;
+    movies: { title: string };
+    theater_halls: { name: string; cinemas: { name: string } };
+  };
+}
+
+const Ticket = () => {
+  const { bookingId } = useParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [booking, setBooking] = useState<TicketBooking | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    if (bookingId) fetchTicket();
+  }, [user, bookingId]);
+
+  const fetchTicket = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .select('id, booking_status, seats, ticket_breakdown, booking_concessions(id, name, quantity, unit_price), showtimes(show_date, show_time, movies(title), theater_halls(name, cinemas(name)))')
+        .eq('id', bookingId)
+        .eq('user_id', user.id)
+        .single();
+
+      if (error) throw error;
+      setBooking(data);
+
+      if (data.booking_status === 'confirmed') {
+        const { data: ticketToken, error: tokenError } = await supabase.rpc('get_ticket_token', {
+          _booking_id: data.id,
+        });
+        if (tokenError) throw tokenError;
+        setToken(ticketToken);
+      }
+    } catch (error) {
+      setError(getErrorMessage(error, 'This ticket could not be loaded'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8 max-w-md">
+        <Button variant="ghost" asChild className="mb-6">
+          <Link to="/bookings">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            My Bookings
+          </Link>
+        </Button>
+
+        {loading ? (
+          <p className="text-muted-foreground">Loading ticket...</p>
+        ) : error || !booking ? (
+          <Card className="p-6 text-center">
+            <TicketIcon className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">{error ?? 'Ticket not found'}</p>
+          </Card>
+        ) : (
+          <Card className="p-6">
+            <div className="flex items-start justify-between mb-4">
+              <h1 className="text-2xl font-bold">{booking.showtimes.movies.title}</h1>
+              <Badge variant={getBookingStatusVariant(booking.booking_status)}>
+                {booking.booking_status}
+              </Badge>
+            </div>
+
+            <div className="space-y-2 text-sm mb-6">
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Calendar className="w-4 h-4" />
+                {booking.showtimes.show_date}
+              </div>
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Clock className="w-4 h-4" />
+                {booking.showtimes.show_time.slice(0, 5)}
+              </div>
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <TicketIcon className="w-4 h-4" />
+                {formatHallName(booking.showtimes.theater_halls)} · Seats {booking.seats.join(', ')}
+              </div>
+            </div>
+
+            <TicketBreakdown items={toTicketBreakdown(booking.ticket_breakdown)} className="mb-6" />
+            {booking.booking_concessions.length > 0 && (
+              <div className="mb-6">
+                <p className="text-sm font-semibold mb-1">Collect at the concession stand</p>
+                <ConcessionLines lines={booking.booking_concessions} />
+              </div>
+            )}
+
+            {token ? (
+              <div className="flex flex-col items-center gap-3 pt-6 border-t border-border">
+                {/* White backing keeps the code scannable in dark mode */}
+                <div className="bg-white p-4 rounded-lg">
+                  <QRCodeSVG value={token} size={224} level="M" />
+                </div>
+                <p className="text-xs text-muted-foreground text-center">
+                  Show this code at the entrance. Booking {booking.id.slice(0, 8).toUpperCase()}
+                </p>
+              </div>
+            ) : (
+              <p className="pt-6 border-t border-border text-sm text-muted-foreground text-center">
+                {booking.booking_status === 'pending'
+                  ? 'Your ticket will appear here once the booking is paid for.'
+                  : 'This booking is not valid for entry.'}
+              </p>
+            )}
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Ticket;
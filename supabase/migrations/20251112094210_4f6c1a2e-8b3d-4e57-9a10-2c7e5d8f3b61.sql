@@ -0,0 +1,5 @@
+-- Allow admins to manage bookings from the admin dashboard
+CREATE POLICY "Admins can update bookings" ON public.bookings FOR UPDATE 
+  USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can delete bookings" ON public.bookings FOR DELETE 
+  USING (public.has_role(auth.uid(), 'admin'));
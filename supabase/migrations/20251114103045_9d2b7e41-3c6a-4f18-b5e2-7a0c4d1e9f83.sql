@@ -0,0 +1,74 @@
+-- Atomic booking: validate seats, price server-side and write bookings + booked_seats in one transaction
+CREATE OR REPLACE FUNCTION public.book_seats(_showtime_id UUID, _seat_labels TEXT[])
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _showtime public.showtimes;
+  _layout JSONB;
+  _invalid TEXT[];
+  _taken TEXT[];
+  _booking public.bookings;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to book seats' USING ERRCODE = '28000';
+  END IF;
+
+  IF _seat_labels IS NULL OR cardinality(_seat_labels) = 0 THEN
+    RAISE EXCEPTION 'Select at least one seat' USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(_seat_labels) <> (SELECT count(DISTINCT s) FROM unnest(_seat_labels) AS s) THEN
+    RAISE EXCEPTION 'Each seat can only be selected once' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the showtime so concurrent bookings for it are serialized
+  SELECT * INTO _showtime FROM public.showtimes WHERE id = _showtime_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Showtime not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT seat_layout INTO _layout FROM public.theater_halls WHERE id = _showtime.hall_id;
+
+  SELECT array_agg(s ORDER BY s) INTO _invalid
+  FROM unnest(_seat_labels) AS s
+  WHERE s NOT IN (
+    SELECT (r->>'row') || c
+    FROM jsonb_array_elements(_layout->'seats') AS r,
+         generate_series(1, (r->>'cols')::int) AS c
+  );
+
+  IF _invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Seats do not exist in this hall: %', array_to_string(_invalid, ', ')
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT array_agg(seat_label ORDER BY seat_label) INTO _taken
+  FROM public.booked_seats
+  WHERE showtime_id = _showtime_id AND seat_label = ANY(_seat_labels);
+
+  IF _taken IS NOT NULL THEN
+    RAISE EXCEPTION 'Seats already booked: %', array_to_string(_taken, ', ')
+      USING ERRCODE = '23505', DETAIL = array_to_string(_taken, ',');
+  END IF;
+
+  INSERT INTO public.bookings (user_id, showtime_id, seats, total_price)
+  VALUES (_user_id, _showtime_id, _seat_labels, _showtime.ticket_price * cardinality(_seat_labels))
+  RETURNING * INTO _booking;
+
+  INSERT INTO public.booked_seats (showtime_id, seat_label, booking_id)
+  SELECT _showtime_id, s, _booking.id FROM unnest(_seat_labels) AS s;
+
+  RETURN _booking;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.book_seats(UUID, TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.book_seats(UUID, TEXT[]) TO authenticated;
+
+-- Bookings are now only created through book_seats
+DROP POLICY "Users can create own bookings" ON public.bookings;
+DROP POLICY "Users can insert booked seats" ON public.booked_seats;
@@ -0,0 +1,189 @@
+-- Temporary seat holds while a customer is checking out
+CREATE TABLE public.seat_holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  showtime_id UUID REFERENCES public.showtimes(id) ON DELETE CASCADE NOT NULL,
+  seat_label TEXT NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  UNIQUE(showtime_id, seat_label)
+);
+
+CREATE INDEX seat_holds_expires_at_idx ON public.seat_holds (expires_at);
+
+ALTER TABLE public.seat_holds ENABLE ROW LEVEL SECURITY;
+
+-- Holds are only written through the RPCs below
+CREATE POLICY "Anyone can view seat holds" ON public.seat_holds FOR SELECT USING (true);
+
+-- Hold a seat for the current user, extending all of their holds for the showtime
+CREATE OR REPLACE FUNCTION public.hold_seat(_showtime_id UUID, _seat_label TEXT)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _expires_at TIMESTAMPTZ := now() + interval '5 minutes';
+  _held INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to hold seats' USING ERRCODE = '28000';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.booked_seats
+    WHERE showtime_id = _showtime_id AND seat_label = _seat_label
+  ) THEN
+    RAISE EXCEPTION 'Seat % is already booked', _seat_label
+      USING ERRCODE = '23505', DETAIL = _seat_label;
+  END IF;
+
+  INSERT INTO public.seat_holds (showtime_id, seat_label, user_id, expires_at)
+  VALUES (_showtime_id, _seat_label, _user_id, _expires_at)
+  ON CONFLICT (showtime_id, seat_label) DO UPDATE
+    SET user_id = EXCLUDED.user_id, expires_at = EXCLUDED.expires_at
+    WHERE seat_holds.user_id = _user_id OR seat_holds.expires_at <= now();
+
+  GET DIAGNOSTICS _held = ROW_COUNT;
+  IF _held = 0 THEN
+    RAISE EXCEPTION 'Seat % is being held by another customer', _seat_label
+      USING ERRCODE = '23505', DETAIL = _seat_label;
+  END IF;
+
+  UPDATE public.seat_holds
+  SET expires_at = _expires_at
+  WHERE showtime_id = _showtime_id AND user_id = _user_id;
+
+  RETURN _expires_at;
+END;
+$$;
+
+-- Release the current user's holds; NULL labels releases every hold for the showtime
+CREATE OR REPLACE FUNCTION public.release_seats(_showtime_id UUID, _seat_labels TEXT[] DEFAULT NULL)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.seat_holds
+  WHERE showtime_id = _showtime_id
+    AND user_id = auth.uid()
+    AND (_seat_labels IS NULL OR seat_label = ANY(_seat_labels))
+$$;
+
+-- Cleanup path for lapsed holds, run by pg_cron every minute
+CREATE OR REPLACE FUNCTION public.release_expired_seat_holds()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _released INTEGER;
+BEGIN
+  DELETE FROM public.seat_holds WHERE expires_at <= now();
+  GET DIAGNOSTICS _released = ROW_COUNT;
+  RETURN _released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hold_seat(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.release_seats(UUID, TEXT[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.release_expired_seat_holds() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hold_seat(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.release_seats(UUID, TEXT[]) TO authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'release-expired-seat-holds',
+  '* * * * *',
+  $$SELECT public.release_expired_seat_holds()$$
+);
+
+-- Respect other customers' holds when booking and consume the buyer's own holds
+CREATE OR REPLACE FUNCTION public.book_seats(_showtime_id UUID, _seat_labels TEXT[])
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _showtime public.showtimes;
+  _layout JSONB;
+  _invalid TEXT[];
+  _taken TEXT[];
+  _booking public.bookings;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to book seats' USING ERRCODE = '28000';
+  END IF;
+
+  IF _seat_labels IS NULL OR cardinality(_seat_labels) = 0 THEN
+    RAISE EXCEPTION 'Select at least one seat' USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(_seat_labels) <> (SELECT count(DISTINCT s) FROM unnest(_seat_labels) AS s) THEN
+    RAISE EXCEPTION 'Each seat can only be selected once' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the showtime so concurrent bookings for it are serialized
+  SELECT * INTO _showtime FROM public.showtimes WHERE id = _showtime_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Showtime not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT seat_layout INTO _layout FROM public.theater_halls WHERE id = _showtime.hall_id;
+
+  SELECT array_agg(s ORDER BY s) INTO _invalid
+  FROM unnest(_seat_labels) AS s
+  WHERE s NOT IN (
+    SELECT (r->>'row') || c
+    FROM jsonb_array_elements(_layout->'seats') AS r,
+         generate_series(1, (r->>'cols')::int) AS c
+  );
+
+  IF _invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Seats do not exist in this hall: %', array_to_string(_invalid, ', ')
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT array_agg(seat_label ORDER BY seat_label) INTO _taken
+  FROM public.booked_seats
+  WHERE showtime_id = _showtime_id AND seat_label = ANY(_seat_labels);
+
+  IF _taken IS NOT NULL THEN
+    RAISE EXCEPTION 'Seats already booked: %', array_to_string(_taken, ', ')
+      USING ERRCODE = '23505', DETAIL = array_to_string(_taken, ',');
+  END IF;
+
+  SELECT array_agg(seat_label ORDER BY seat_label) INTO _taken
+  FROM public.seat_holds
+  WHERE showtime_id = _showtime_id
+    AND seat_label = ANY(_seat_labels)
+    AND user_id <> _user_id
+    AND expires_at > now();
+
+  IF _taken IS NOT NULL THEN
+    RAISE EXCEPTION 'Seats are being held by another customer: %', array_to_string(_taken, ', ')
+      USING ERRCODE = '23505', DETAIL = array_to_string(_taken, ',');
+  END IF;
+
+  INSERT INTO public.bookings (user_id, showtime_id, seats, total_price)
+  VALUES (_user_id, _showtime_id, _seat_labels, _showtime.ticket_price * cardinality(_seat_labels))
+  RETURNING * INTO _booking;
+
+  INSERT INTO public.booked_seats (showtime_id, seat_label, booking_id)
+  SELECT _showtime_id, s, _booking.id FROM unnest(_seat_labels) AS s;
+
+  DELETE FROM public.seat_holds WHERE showtime_id = _showtime_id AND user_id = _user_id;
+
+  RETURN _booking;
+END;
+$$;
+
+-- Broadcast holds alongside booked seats
+ALTER PUBLICATION supabase_realtime ADD TABLE public.seat_holds;
@@ -0,0 +1,79 @@
+-- Singleton row of admin-configurable settings
+CREATE TABLE public.app_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  cancellation_cutoff_minutes INTEGER NOT NULL DEFAULT 120 CHECK (cancellation_cutoff_minutes >= 0),
+  cancellation_refund_percent INTEGER NOT NULL DEFAULT 100
+    CHECK (cancellation_refund_percent BETWEEN 0 AND 100),
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+INSERT INTO public.app_settings DEFAULT VALUES;
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view settings" ON public.app_settings FOR SELECT USING (true);
+CREATE POLICY "Only admins can update settings" ON public.app_settings FOR UPDATE 
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Track cancellations and refunds on bookings
+ALTER TABLE public.bookings
+  ADD COLUMN cancelled_at TIMESTAMPTZ,
+  ADD COLUMN refund_amount DECIMAL(10,2),
+  ADD CONSTRAINT bookings_status_check CHECK (booking_status IN ('confirmed', 'cancelled'));
+
+-- Cancel a booking, release its seats and record the refund.
+-- Customers must cancel before the cutoff; admins may cancel at any time.
+CREATE OR REPLACE FUNCTION public.cancel_booking(_booking_id UUID)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _is_admin BOOLEAN := public.has_role(auth.uid(), 'admin');
+  _booking public.bookings;
+  _starts_at TIMESTAMPTZ;
+  _settings public.app_settings;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+
+  IF NOT FOUND OR (_booking.user_id <> _user_id AND NOT _is_admin) THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _booking.booking_status = 'cancelled' THEN
+    RAISE EXCEPTION 'This booking has already been cancelled' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _settings FROM public.app_settings;
+
+  SELECT (show_date + show_time)::timestamptz INTO _starts_at
+  FROM public.showtimes WHERE id = _booking.showtime_id;
+
+  IF NOT _is_admin
+    AND now() > _starts_at - make_interval(mins => _settings.cancellation_cutoff_minutes) THEN
+    RAISE EXCEPTION 'Bookings can only be cancelled up to % minutes before the show',
+      _settings.cancellation_cutoff_minutes
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.bookings
+  SET booking_status = 'cancelled',
+      cancelled_at = now(),
+      refund_amount = round(total_price * _settings.cancellation_refund_percent / 100.0, 2)
+  WHERE id = _booking_id
+  RETURNING * INTO _booking;
+
+  DELETE FROM public.booked_seats WHERE booking_id = _booking_id;
+
+  RETURN _booking;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_booking(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_booking(UUID) TO authenticated;
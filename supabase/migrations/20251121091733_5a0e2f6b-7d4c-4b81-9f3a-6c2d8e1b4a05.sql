@@ -0,0 +1,117 @@
+-- Per-type seat pricing: hall-level multipliers with optional per-showtime explicit prices
+ALTER TABLE public.theater_halls
+  ADD COLUMN seat_type_multipliers JSONB NOT NULL
+    DEFAULT '{"standard": 1, "premium": 1.5, "recliner": 2, "wheelchair": 1, "companion": 1}'::jsonb;
+
+ALTER TABLE public.showtimes
+  ADD COLUMN seat_type_prices JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Expand a hall's seat_layout into one row per seat
+CREATE OR REPLACE FUNCTION public.hall_seats(_layout JSONB)
+RETURNS TABLE (seat_label TEXT, seat_type TEXT)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (r->>'row') || c, COALESCE(r->>'type', 'standard')
+  FROM jsonb_array_elements(_layout->'seats') AS r,
+       generate_series(1, (r->>'cols')::int) AS c
+$$;
+
+-- Explicit showtime price for the type, else the base ticket price scaled by the hall multiplier
+CREATE OR REPLACE FUNCTION public.seat_price(_showtime_id UUID, _seat_type TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (s.seat_type_prices->>_seat_type)::numeric,
+    round(s.ticket_price * COALESCE((h.seat_type_multipliers->>_seat_type)::numeric, 1), 2)
+  )
+  FROM public.showtimes s
+  JOIN public.theater_halls h ON h.id = s.hall_id
+  WHERE s.id = _showtime_id
+$$;
+
+-- Price each seat by its type when booking
+CREATE OR REPLACE FUNCTION public.book_seats(_showtime_id UUID, _seat_labels TEXT[])
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _showtime public.showtimes;
+  _layout JSONB;
+  _invalid TEXT[];
+  _taken TEXT[];
+  _total NUMERIC;
+  _booking public.bookings;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to book seats' USING ERRCODE = '28000';
+  END IF;
+
+  IF _seat_labels IS NULL OR cardinality(_seat_labels) = 0 THEN
+    RAISE EXCEPTION 'Select at least one seat' USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(_seat_labels) <> (SELECT count(DISTINCT s) FROM unnest(_seat_labels) AS s) THEN
+    RAISE EXCEPTION 'Each seat can only be selected once' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the showtime so concurrent bookings for it are serialized
+  SELECT * INTO _showtime FROM public.showtimes WHERE id = _showtime_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Showtime not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT seat_layout INTO _layout FROM public.theater_halls WHERE id = _showtime.hall_id;
+
+  SELECT array_agg(s ORDER BY s) INTO _invalid
+  FROM unnest(_seat_labels) AS s
+  WHERE s NOT IN (SELECT seat_label FROM public.hall_seats(_layout));
+
+  IF _invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Seats do not exist in this hall: %', array_to_string(_invalid, ', ')
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT array_agg(seat_label ORDER BY seat_label) INTO _taken
+  FROM public.booked_seats
+  WHERE showtime_id = _showtime_id AND seat_label = ANY(_seat_labels);
+
+  IF _taken IS NOT NULL THEN
+    RAISE EXCEPTION 'Seats already booked: %', array_to_string(_taken, ', ')
+      USING ERRCODE = '23505', DETAIL = array_to_string(_taken, ',');
+  END IF;
+
+  SELECT array_agg(seat_label ORDER BY seat_label) INTO _taken
+  FROM public.seat_holds
+  WHERE showtime_id = _showtime_id
+    AND seat_label = ANY(_seat_labels)
+    AND user_id <> _user_id
+    AND expires_at > now();
+
+  IF _taken IS NOT NULL THEN
+    RAISE EXCEPTION 'Seats are being held by another customer: %', array_to_string(_taken, ', ')
+      USING ERRCODE = '23505', DETAIL = array_to_string(_taken, ',');
+  END IF;
+
+  SELECT sum(public.seat_price(_showtime_id, hs.seat_type)) INTO _total
+  FROM public.hall_seats(_layout) AS hs
+  WHERE hs.seat_label = ANY(_seat_labels);
+
+  INSERT INTO public.bookings (user_id, showtime_id, seats, total_price)
+  VALUES (_user_id, _showtime_id, _seat_labels, _total)
+  RETURNING * INTO _booking;
+
+  INSERT INTO public.booked_seats (showtime_id, seat_label, booking_id)
+  SELECT _showtime_id, s, _booking.id FROM unnest(_seat_labels) AS s;
+
+  DELETE FROM public.seat_holds WHERE showtime_id = _showtime_id AND user_id = _user_id;
+
+  RETURN _booking;
+END;
+$$;
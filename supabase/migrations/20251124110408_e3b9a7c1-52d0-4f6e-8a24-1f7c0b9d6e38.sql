@@ -0,0 +1,21 @@
+-- Versioned seat layouts. Legacy halls keep `{ seats: [{ row, cols, type }] }`;
+-- version 2 stores explicit cells so halls can have aisles, gaps, custom labels and disabled seats:
+-- { version: 2, curvature: 0..1, rows: [{ label, cells: [{ kind: 'seat', label, type, disabled? } | { kind: 'gap' } | { kind: 'aisle' }] }] }
+CREATE OR REPLACE FUNCTION public.hall_seats(_layout JSONB)
+RETURNS TABLE (seat_label TEXT, seat_type TEXT)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (r->>'row') || c, COALESCE(r->>'type', 'standard')
+  FROM jsonb_array_elements(_layout->'seats') AS r,
+       generate_series(1, (r->>'cols')::int) AS c
+  WHERE COALESCE((_layout->>'version')::int, 1) = 1
+  UNION ALL
+  -- Disabled seats are part of the map but can never be booked
+  SELECT cell->>'label', COALESCE(cell->>'type', 'standard')
+  FROM jsonb_array_elements(_layout->'rows') AS r,
+       jsonb_array_elements(r->'cells') AS cell
+  WHERE (_layout->>'version')::int = 2
+    AND cell->>'kind' = 'seat'
+    AND NOT COALESCE((cell->>'disabled')::boolean, false)
+$$;
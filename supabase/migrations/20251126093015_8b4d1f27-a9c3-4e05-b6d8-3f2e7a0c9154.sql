@@ -0,0 +1,108 @@
+-- Reject malformed seat layouts at write time. Mirrors parseSeatLayout in src/lib/seatLayout.ts.
+CREATE OR REPLACE FUNCTION public.validate_seat_layout()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _layout JSONB := NEW.seat_layout;
+  _row JSONB;
+  _cell JSONB;
+  _labels TEXT[] := '{}';
+  _duplicates TEXT;
+BEGIN
+  IF jsonb_typeof(_layout) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Invalid seat layout: must be a JSON object' USING ERRCODE = '23514';
+  END IF;
+
+  IF _layout ? 'version' THEN
+    IF _layout->'version' <> '2'::jsonb THEN
+      RAISE EXCEPTION 'Invalid seat layout: unsupported version %', _layout->'version'
+        USING ERRCODE = '23514';
+    END IF;
+
+    IF _layout ? 'curvature' AND (
+      jsonb_typeof(_layout->'curvature') <> 'number'
+      OR (_layout->>'curvature')::numeric NOT BETWEEN 0 AND 1
+    ) THEN
+      RAISE EXCEPTION 'Invalid seat layout: curvature must be between 0 and 1' USING ERRCODE = '23514';
+    END IF;
+
+    IF jsonb_typeof(_layout->'rows') IS DISTINCT FROM 'array' OR jsonb_array_length(_layout->'rows') = 0 THEN
+      RAISE EXCEPTION 'Invalid seat layout: the layout needs at least one row' USING ERRCODE = '23514';
+    END IF;
+
+    FOR _row IN SELECT * FROM jsonb_array_elements(_layout->'rows') LOOP
+      IF jsonb_typeof(_row->'label') IS DISTINCT FROM 'string' OR btrim(_row->>'label') = '' THEN
+        RAISE EXCEPTION 'Invalid seat layout: every row needs a label' USING ERRCODE = '23514';
+      END IF;
+
+      IF jsonb_typeof(_row->'cells') IS DISTINCT FROM 'array' OR jsonb_array_length(_row->'cells') = 0 THEN
+        RAISE EXCEPTION 'Invalid seat layout: row % needs at least one cell', _row->>'label'
+          USING ERRCODE = '23514';
+      END IF;
+
+      FOR _cell IN SELECT * FROM jsonb_array_elements(_row->'cells') LOOP
+        CASE _cell->>'kind'
+          WHEN 'gap', 'aisle' THEN
+            NULL;
+          WHEN 'seat' THEN
+            IF jsonb_typeof(_cell->'label') IS DISTINCT FROM 'string' OR btrim(_cell->>'label') = '' THEN
+              RAISE EXCEPTION 'Invalid seat layout: every seat in row % needs a label', _row->>'label'
+                USING ERRCODE = '23514';
+            END IF;
+            IF _cell ? 'type' AND jsonb_typeof(_cell->'type') <> 'string' THEN
+              RAISE EXCEPTION 'Invalid seat layout: seat % has an invalid type', _cell->>'label'
+                USING ERRCODE = '23514';
+            END IF;
+            IF _cell ? 'disabled' AND jsonb_typeof(_cell->'disabled') <> 'boolean' THEN
+              RAISE EXCEPTION 'Invalid seat layout: seat % has an invalid disabled flag', _cell->>'label'
+                USING ERRCODE = '23514';
+            END IF;
+            _labels := _labels || btrim(_cell->>'label');
+          ELSE
+            RAISE EXCEPTION 'Invalid seat layout: unknown cell kind % in row %', _cell->'kind', _row->>'label'
+              USING ERRCODE = '23514';
+        END CASE;
+      END LOOP;
+    END LOOP;
+  ELSE
+    IF jsonb_typeof(_layout->'seats') IS DISTINCT FROM 'array' OR jsonb_array_length(_layout->'seats') = 0 THEN
+      RAISE EXCEPTION 'Invalid seat layout: the layout needs at least one row' USING ERRCODE = '23514';
+    END IF;
+
+    FOR _row IN SELECT * FROM jsonb_array_elements(_layout->'seats') LOOP
+      IF jsonb_typeof(_row->'row') IS DISTINCT FROM 'string' OR btrim(_row->>'row') = '' THEN
+        RAISE EXCEPTION 'Invalid seat layout: every row needs a label' USING ERRCODE = '23514';
+      END IF;
+
+      IF jsonb_typeof(_row->'cols') IS DISTINCT FROM 'number'
+        OR (_row->>'cols')::numeric <= 0
+        OR (_row->>'cols')::numeric <> floor((_row->>'cols')::numeric) THEN
+        RAISE EXCEPTION 'Invalid seat layout: row % needs a positive whole number of seats', _row->>'row'
+          USING ERRCODE = '23514';
+      END IF;
+
+      _labels := _labels || ARRAY(
+        SELECT (_row->>'row') || c FROM generate_series(1, (_row->>'cols')::int) AS c
+      );
+    END LOOP;
+  END IF;
+
+  IF cardinality(_labels) = 0 THEN
+    RAISE EXCEPTION 'Invalid seat layout: the layout needs at least one seat' USING ERRCODE = '23514';
+  END IF;
+
+  SELECT string_agg(label, ', ' ORDER BY label) INTO _duplicates
+  FROM (SELECT label FROM unnest(_labels) AS label GROUP BY label HAVING count(*) > 1) AS d;
+
+  IF _duplicates IS NOT NULL THEN
+    RAISE EXCEPTION 'Duplicate seat labels: %', _duplicates USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_theater_halls_seat_layout
+  BEFORE INSERT OR UPDATE OF seat_layout ON public.theater_halls
+  FOR EACH ROW EXECUTE FUNCTION public.validate_seat_layout();
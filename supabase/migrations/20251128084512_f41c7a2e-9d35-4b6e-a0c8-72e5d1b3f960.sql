@@ -0,0 +1,103 @@
+-- Minutes a hall stays blocked after a showing ends so it can be cleaned
+ALTER TABLE public.app_settings
+  ADD COLUMN cleaning_buffer_minutes INTEGER NOT NULL DEFAULT 15 CHECK (cleaning_buffer_minutes >= 0);
+
+-- Each showtime occupies its hall from starts_at until blocked_until (end of film plus cleaning)
+ALTER TABLE public.showtimes
+  ADD COLUMN starts_at TIMESTAMP GENERATED ALWAYS AS (show_date + show_time) STORED,
+  ADD COLUMN ends_at TIMESTAMP,
+  ADD COLUMN blocked_until TIMESTAMP;
+
+CREATE OR REPLACE FUNCTION public.set_showtime_end()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _duration INTEGER;
+  _buffer INTEGER;
+BEGIN
+  SELECT duration INTO _duration FROM public.movies WHERE id = NEW.movie_id;
+  SELECT cleaning_buffer_minutes INTO _buffer FROM public.app_settings;
+
+  NEW.ends_at := (NEW.show_date + NEW.show_time) + make_interval(mins => _duration);
+  NEW.blocked_until := NEW.ends_at + make_interval(mins => COALESCE(_buffer, 0));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_showtimes_end
+  BEFORE INSERT OR UPDATE ON public.showtimes
+  FOR EACH ROW EXECUTE FUNCTION public.set_showtime_end();
+
+UPDATE public.showtimes SET movie_id = movie_id;
+
+ALTER TABLE public.showtimes
+  ALTER COLUMN ends_at SET NOT NULL,
+  ALTER COLUMN blocked_until SET NOT NULL;
+
+-- Two showtimes in the same hall may not overlap, cleaning buffer included
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Exclusion constraints can't be added NOT VALID, so name existing clashes up front
+-- instead of failing on the first one with a bare 23P01
+DO $$
+DECLARE
+  _conflicts TEXT;
+BEGIN
+  SELECT string_agg(clash, E'\n') INTO _conflicts
+  FROM (
+    SELECT format('hall %s: showtime %s (%s %s) overlaps showtime %s (%s %s)',
+      a.hall_id, a.id, a.show_date, a.show_time, b.id, b.show_date, b.show_time) AS clash
+    FROM public.showtimes a
+    JOIN public.showtimes b
+      ON b.hall_id = a.hall_id
+      AND b.id > a.id
+      AND tsrange(a.starts_at, a.blocked_until) && tsrange(b.starts_at, b.blocked_until)
+    ORDER BY a.hall_id, a.starts_at
+    LIMIT 50
+  ) AS clashes;
+
+  IF _conflicts IS NOT NULL THEN
+    RAISE EXCEPTION 'Showtimes overlap in the same hall; move or delete them before applying this migration'
+      USING ERRCODE = '23P01',
+        DETAIL = _conflicts,
+        HINT = 'Overlaps include the cleaning buffer (app_settings.cleaning_buffer_minutes). At most 50 are listed.';
+  END IF;
+END;
+$$;
+
+ALTER TABLE public.showtimes
+  ADD CONSTRAINT showtimes_hall_no_overlap
+  EXCLUDE USING gist (hall_id WITH =, tsrange(starts_at, blocked_until) WITH &&);
+
+-- Keep upcoming showtimes in step when a film's runtime or the cleaning buffer changes.
+-- The exclusion constraint rejects the change if it would make showtimes collide.
+CREATE OR REPLACE FUNCTION public.refresh_showtime_ends()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'movies' THEN
+    UPDATE public.showtimes SET movie_id = movie_id
+    WHERE movie_id = NEW.id AND starts_at >= now();
+  ELSE
+    UPDATE public.showtimes SET movie_id = movie_id
+    WHERE starts_at >= now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_showtime_ends_on_duration
+  AFTER UPDATE OF duration ON public.movies
+  FOR EACH ROW
+  WHEN (OLD.duration IS DISTINCT FROM NEW.duration)
+  EXECUTE FUNCTION public.refresh_showtime_ends();
+
+CREATE TRIGGER refresh_showtime_ends_on_buffer
+  AFTER UPDATE OF cleaning_buffer_minutes ON public.app_settings
+  FOR EACH ROW
+  WHEN (OLD.cleaning_buffer_minutes IS DISTINCT FROM NEW.cleaning_buffer_minutes)
+  EXECUTE FUNCTION public.refresh_showtime_ends();
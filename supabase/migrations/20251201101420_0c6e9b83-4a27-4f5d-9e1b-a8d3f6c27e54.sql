@@ -0,0 +1,135 @@
+-- Recurring schedule rules that generate individual showtimes
+CREATE TABLE public.showtime_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  movie_id UUID REFERENCES public.movies(id) ON DELETE CASCADE NOT NULL,
+  hall_id UUID REFERENCES public.theater_halls(id) ON DELETE CASCADE NOT NULL,
+  weekdays SMALLINT[] NOT NULL, -- ISO weekdays, 1 = Monday ... 7 = Sunday
+  show_times TIME[] NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  ticket_price DECIMAL(10,2) NOT NULL,
+  seat_type_prices JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  CHECK (end_date >= start_date),
+  CHECK (cardinality(weekdays) > 0 AND weekdays <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::SMALLINT[]),
+  CHECK (cardinality(show_times) > 0)
+);
+
+ALTER TABLE public.showtime_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can view showtime series" ON public.showtime_series FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_showtime_series_updated_at
+  BEFORE UPDATE ON public.showtime_series
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Past showtimes outlive their series so booking history stays intact
+ALTER TABLE public.showtimes
+  ADD COLUMN series_id UUID REFERENCES public.showtime_series(id) ON DELETE SET NULL;
+
+CREATE INDEX showtimes_series_id_idx ON public.showtimes (series_id);
+
+-- Create or update a series and regenerate its upcoming showtimes.
+-- Upcoming showtimes that already have bookings are kept as they are; everything else
+-- is replaced, so a conflicting rule rolls back the whole save via showtimes_hall_no_overlap.
+CREATE OR REPLACE FUNCTION public.save_showtime_series(
+  _series_id UUID,
+  _movie_id UUID,
+  _hall_id UUID,
+  _weekdays SMALLINT[],
+  _show_times TIME[],
+  _start_date DATE,
+  _end_date DATE,
+  _ticket_price DECIMAL,
+  _seat_type_prices JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID := _series_id;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage showtime series' USING ERRCODE = '42501';
+  END IF;
+
+  IF _end_date - _start_date > 366 THEN
+    RAISE EXCEPTION 'A series can span at most one year' USING ERRCODE = '22023';
+  END IF;
+
+  IF _id IS NULL THEN
+    INSERT INTO public.showtime_series
+      (movie_id, hall_id, weekdays, show_times, start_date, end_date, ticket_price, seat_type_prices)
+    VALUES
+      (_movie_id, _hall_id, _weekdays, _show_times, _start_date, _end_date, _ticket_price, _seat_type_prices)
+    RETURNING id INTO _id;
+  ELSE
+    UPDATE public.showtime_series
+    SET movie_id = _movie_id,
+        hall_id = _hall_id,
+        weekdays = _weekdays,
+        show_times = _show_times,
+        start_date = _start_date,
+        end_date = _end_date,
+        ticket_price = _ticket_price,
+        seat_type_prices = _seat_type_prices
+    WHERE id = _id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Showtime series not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM public.showtimes s
+    WHERE s.series_id = _id
+      AND s.starts_at >= now()
+      AND NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.showtime_id = s.id);
+  END IF;
+
+  INSERT INTO public.showtimes
+    (movie_id, hall_id, show_date, show_time, ticket_price, seat_type_prices, series_id)
+  SELECT _movie_id, _hall_id, d::date, t, _ticket_price, _seat_type_prices, _id
+  FROM generate_series(_start_date, _end_date, interval '1 day') AS d
+  CROSS JOIN unnest(_show_times) AS t
+  WHERE EXTRACT(ISODOW FROM d)::SMALLINT = ANY (_weekdays)
+    AND d::date + t >= now()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.showtimes s
+      WHERE s.series_id = _id AND s.show_date = d::date AND s.show_time = t
+    );
+
+  RETURN _id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_showtime_series(UUID, UUID, UUID, SMALLINT[], TIME[], DATE, DATE, DECIMAL, JSONB)
+  FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_showtime_series(UUID, UUID, UUID, SMALLINT[], TIME[], DATE, DATE, DECIMAL, JSONB)
+  TO authenticated;
+
+-- Remove a series along with its upcoming showtimes (and their bookings)
+CREATE OR REPLACE FUNCTION public.delete_showtime_series(_series_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage showtime series' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.showtimes WHERE series_id = _series_id AND starts_at >= now();
+  DELETE FROM public.showtime_series WHERE id = _series_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Showtime series not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_showtime_series(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.delete_showtime_series(UUID) TO authenticated;
@@ -0,0 +1,117 @@
+-- Ticket tokens are `<payload>.<signature>`, both base64url, where the payload is the
+-- booking's id, showtime and seats and the signature is an HMAC-SHA256 over it.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- The signing key lives outside the API-exposed schema so only the functions below can read it
+CREATE SCHEMA IF NOT EXISTS private;
+REVOKE ALL ON SCHEMA private FROM PUBLIC, anon, authenticated;
+
+CREATE TABLE private.ticket_signing_key (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  secret BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32)
+);
+
+INSERT INTO private.ticket_signing_key DEFAULT VALUES;
+
+CREATE OR REPLACE FUNCTION private.sign_ticket_payload(_payload TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT rtrim(translate(encode(
+    extensions.hmac(convert_to(_payload, 'UTF8'), (SELECT secret FROM private.ticket_signing_key), 'sha256'),
+    'base64'), E'+/\n', '-_'), '=');
+$$;
+
+-- Issue the QR token for one of the caller's confirmed bookings
+CREATE OR REPLACE FUNCTION public.get_ticket_token(_booking_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+  _payload TEXT;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings
+  WHERE id = _booking_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _booking.booking_status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Cancelled bookings have no ticket' USING ERRCODE = '22023';
+  END IF;
+
+  _payload := jsonb_build_object('b', _booking.id, 's', _booking.showtime_id, 'seats', to_jsonb(_booking.seats))::text;
+
+  RETURN rtrim(translate(encode(convert_to(_payload, 'UTF8'), 'base64'), E'+/\n', '-_'), '=')
+    || '.' || private.sign_ticket_payload(_payload);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_ticket_token(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_ticket_token(UUID) TO authenticated;
+
+-- Check a scanned token's signature and return the booking it stands for.
+-- Seats are read from the booking, so a cancelled or changed booking is visible to staff.
+CREATE OR REPLACE FUNCTION public.verify_ticket(_token TEXT)
+RETURNS TABLE (
+  booking_id UUID,
+  booking_status TEXT,
+  seats TEXT[],
+  showtime_id UUID,
+  show_date DATE,
+  show_time TIME,
+  movie_title TEXT,
+  hall_name TEXT,
+  customer_name TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parts TEXT[] := string_to_array(_token, '.');
+  _encoded TEXT;
+  _payload TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only staff can verify tickets' USING ERRCODE = '42501';
+  END IF;
+
+  IF cardinality(_parts) <> 2 THEN
+    RAISE EXCEPTION 'Invalid ticket' USING ERRCODE = '22023';
+  END IF;
+
+  BEGIN
+    _encoded := translate(_parts[1], '-_', '+/');
+    _payload := convert_from(decode(_encoded || repeat('=', (4 - length(_encoded) % 4) % 4), 'base64'), 'UTF8');
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Invalid ticket' USING ERRCODE = '22023';
+  END;
+
+  IF private.sign_ticket_payload(_payload) <> _parts[2] THEN
+    RAISE EXCEPTION 'Invalid ticket' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT b.id, b.booking_status, b.seats, s.id, s.show_date, s.show_time, m.title, h.name, p.full_name
+  FROM public.bookings b
+  JOIN public.showtimes s ON s.id = b.showtime_id
+  JOIN public.movies m ON m.id = s.movie_id
+  JOIN public.theater_halls h ON h.id = s.hall_id
+  LEFT JOIN public.profiles p ON p.id = b.user_id
+  WHERE b.id = (_payload::jsonb->>'b')::uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_ticket(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.verify_ticket(TEXT) TO authenticated;
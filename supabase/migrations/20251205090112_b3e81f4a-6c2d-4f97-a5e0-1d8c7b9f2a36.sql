@@ -0,0 +1,3 @@
+-- Staff can check customers in at the door without full admin access.
+-- Added on its own so later migrations can use the new enum value.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'staff';
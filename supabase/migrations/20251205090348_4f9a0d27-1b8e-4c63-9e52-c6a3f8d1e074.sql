@@ -0,0 +1,166 @@
+-- Door staff (and admins) may verify and admit tickets
+CREATE OR REPLACE FUNCTION public.is_staff(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'staff') OR public.has_role(_user_id, 'admin')
+$$;
+
+-- Record when each seat was let in and by whom
+ALTER TABLE public.booked_seats
+  ADD COLUMN admitted_at TIMESTAMPTZ,
+  ADD COLUMN admitted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- Check a token's signature and return the booking id it was issued for
+CREATE OR REPLACE FUNCTION private.decode_ticket(_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _parts TEXT[] := string_to_array(btrim(_token), '.');
+  _encoded TEXT;
+  _payload TEXT;
+BEGIN
+  IF cardinality(_parts) IS DISTINCT FROM 2 THEN
+    RAISE EXCEPTION 'Invalid ticket' USING ERRCODE = '22023';
+  END IF;
+
+  BEGIN
+    _encoded := translate(_parts[1], '-_', '+/');
+    _payload := convert_from(decode(_encoded || repeat('=', (4 - length(_encoded) % 4) % 4), 'base64'), 'UTF8');
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Invalid ticket' USING ERRCODE = '22023';
+  END;
+
+  IF private.sign_ticket_payload(_payload) <> _parts[2] THEN
+    RAISE EXCEPTION 'Invalid ticket' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN (_payload::jsonb->>'b')::uuid;
+END;
+$$;
+
+-- verify_ticket now reports which seats were already admitted, and staff may call it
+DROP FUNCTION public.verify_ticket(TEXT);
+
+CREATE OR REPLACE FUNCTION public.verify_ticket(_token TEXT)
+RETURNS TABLE (
+  booking_id UUID,
+  booking_status TEXT,
+  seats TEXT[],
+  admitted_seats TEXT[],
+  showtime_id UUID,
+  show_date DATE,
+  show_time TIME,
+  movie_title TEXT,
+  hall_name TEXT,
+  customer_name TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking_id UUID;
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can verify tickets' USING ERRCODE = '42501';
+  END IF;
+
+  _booking_id := private.decode_ticket(_token);
+
+  RETURN QUERY
+  SELECT b.id, b.booking_status, b.seats,
+    ARRAY(
+      SELECT bs.seat_label FROM public.booked_seats bs
+      WHERE bs.booking_id = b.id AND bs.admitted_at IS NOT NULL
+      ORDER BY bs.seat_label
+    ),
+    s.id, s.show_date, s.show_time, m.title, h.name, p.full_name
+  FROM public.bookings b
+  JOIN public.showtimes s ON s.id = b.showtime_id
+  JOIN public.movies m ON m.id = s.movie_id
+  JOIN public.theater_halls h ON h.id = s.hall_id
+  LEFT JOIN public.profiles p ON p.id = b.user_id
+  WHERE b.id = _booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_ticket(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.verify_ticket(TEXT) TO authenticated;
+
+-- Admit every seat on a ticket for the showtime being checked in.
+-- A ticket is refused if it is cancelled, for another showtime, or already used.
+CREATE OR REPLACE FUNCTION public.check_in_ticket(_token TEXT, _showtime_id UUID)
+RETURNS TABLE (
+  booking_id UUID,
+  seats TEXT[],
+  customer_name TEXT,
+  admitted_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+  _booking_id UUID;
+  _admitted_at TIMESTAMPTZ;
+  _ticket_showtime TEXT;
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can check in tickets' USING ERRCODE = '42501';
+  END IF;
+
+  _booking_id := private.decode_ticket(_token);
+
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _booking.booking_status <> 'confirmed' THEN
+    RAISE EXCEPTION 'This booking was cancelled' USING ERRCODE = '22023';
+  END IF;
+
+  IF _booking.showtime_id <> _showtime_id THEN
+    SELECT m.title || ' on ' || s.show_date || ' at ' || to_char(s.show_time, 'HH24:MI')
+    INTO _ticket_showtime
+    FROM public.showtimes s JOIN public.movies m ON m.id = s.movie_id
+    WHERE s.id = _booking.showtime_id;
+
+    RAISE EXCEPTION 'This ticket is for a different showtime'
+      USING ERRCODE = '22023', DETAIL = _ticket_showtime;
+  END IF;
+
+  SELECT max(bs.admitted_at) INTO _admitted_at
+  FROM public.booked_seats bs WHERE bs.booking_id = _booking_id;
+
+  IF _admitted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This ticket was already used'
+      USING ERRCODE = '23505', DETAIL = _admitted_at::text;
+  END IF;
+
+  UPDATE public.booked_seats bs
+  SET admitted_at = now(), admitted_by = auth.uid()
+  WHERE bs.booking_id = _booking_id;
+
+  RETURN QUERY
+  SELECT _booking.id, _booking.seats,
+    (SELECT p.full_name FROM public.profiles p WHERE p.id = _booking.user_id),
+    now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_in_ticket(TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_in_ticket(TEXT, UUID) TO authenticated;
@@ -0,0 +1,235 @@
+-- Bookings now wait for payment: book_seats creates them as 'pending' with a payment deadline,
+-- a paid attempt confirms them and an unpaid one fails once the deadline passes.
+ALTER TABLE public.bookings
+  DROP CONSTRAINT bookings_status_check,
+  ADD CONSTRAINT bookings_status_check
+    CHECK (booking_status IN ('pending', 'confirmed', 'failed', 'cancelled')),
+  ADD COLUMN payment_due_at TIMESTAMPTZ;
+
+ALTER TABLE public.bookings
+  ALTER COLUMN booking_status SET DEFAULT 'pending',
+  ALTER COLUMN payment_due_at SET DEFAULT now() + interval '10 minutes';
+
+-- The local mock provider confirms payments from the browser, so it must be switched off in production
+ALTER TABLE public.app_settings
+  ADD COLUMN mock_payments_enabled BOOLEAN NOT NULL DEFAULT true;
+
+-- One row per payment attempt
+CREATE TABLE public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  provider TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed')),
+  amount DECIMAL(10,2) NOT NULL,
+  provider_reference TEXT,
+  failure_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX payments_booking_id_idx ON public.payments (booking_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payments" ON public.payments FOR SELECT
+  USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all payments" ON public.payments FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Open a payment attempt for one of the caller's pending bookings
+CREATE OR REPLACE FUNCTION public.start_payment(_booking_id UUID, _provider TEXT)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+  _payment public.payments;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings
+  WHERE id = _booking_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _booking.booking_status <> 'pending' OR _booking.payment_due_at < now() THEN
+    RAISE EXCEPTION 'This booking is no longer awaiting payment' USING ERRCODE = '22023';
+  END IF;
+
+  -- Only one attempt may be in flight at a time
+  UPDATE public.payments
+  SET status = 'failed', failure_reason = 'Superseded by a new attempt', completed_at = now()
+  WHERE booking_id = _booking_id AND status = 'pending';
+
+  INSERT INTO public.payments (booking_id, user_id, provider, amount)
+  VALUES (_booking_id, _booking.user_id, _provider, _booking.total_price)
+  RETURNING * INTO _payment;
+
+  RETURN _payment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_payment(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_payment(UUID, TEXT) TO authenticated;
+
+-- Record the outcome of a mock payment attempt. Real providers must confirm payments
+-- from a trusted server-side webhook instead of through this function.
+CREATE OR REPLACE FUNCTION public.complete_mock_payment(
+  _payment_id UUID,
+  _status TEXT,
+  _provider_reference TEXT DEFAULT NULL,
+  _failure_reason TEXT DEFAULT NULL
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _booking public.bookings;
+BEGIN
+  IF NOT (SELECT mock_payments_enabled FROM public.app_settings) THEN
+    RAISE EXCEPTION 'Mock payments are disabled' USING ERRCODE = '42501';
+  END IF;
+
+  IF _status NOT IN ('paid', 'failed') THEN
+    RAISE EXCEPTION 'Payment status must be paid or failed' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _payment FROM public.payments
+  WHERE id = _payment_id AND user_id = auth.uid() AND provider = 'mock'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _payment.status <> 'pending' THEN
+    RAISE EXCEPTION 'This payment has already been completed' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _booking FROM public.bookings WHERE id = _payment.booking_id FOR UPDATE;
+
+  IF _status = 'paid' AND (_booking.booking_status <> 'pending' OR _booking.payment_due_at < now()) THEN
+    _status := 'failed';
+    _failure_reason := 'The payment window expired';
+  END IF;
+
+  UPDATE public.payments
+  SET status = _status,
+      provider_reference = _provider_reference,
+      failure_reason = CASE WHEN _status = 'failed' THEN _failure_reason END,
+      completed_at = now()
+  WHERE id = _payment_id;
+
+  IF _status = 'paid' THEN
+    UPDATE public.bookings
+    SET booking_status = 'confirmed', payment_due_at = NULL
+    WHERE id = _booking.id
+    RETURNING * INTO _booking;
+  END IF;
+
+  RETURN _booking;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_mock_payment(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.complete_mock_payment(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Fail bookings whose payment window has passed and give their seats back, run by pg_cron
+CREATE OR REPLACE FUNCTION public.expire_pending_bookings()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expired UUID[];
+BEGIN
+  WITH expired AS (
+    UPDATE public.bookings
+    SET booking_status = 'failed'
+    WHERE booking_status = 'pending' AND payment_due_at < now()
+    RETURNING id
+  )
+  SELECT array_agg(id) INTO _expired FROM expired;
+
+  IF _expired IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  DELETE FROM public.booked_seats WHERE booking_id = ANY(_expired);
+
+  UPDATE public.payments
+  SET status = 'failed', failure_reason = 'The payment window expired', completed_at = now()
+  WHERE booking_id = ANY(_expired) AND status = 'pending';
+
+  RETURN cardinality(_expired);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_pending_bookings() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-pending-bookings',
+  '* * * * *',
+  $$SELECT public.expire_pending_bookings()$$
+);
+
+-- Only paid bookings can be cancelled for a refund
+CREATE OR REPLACE FUNCTION public.cancel_booking(_booking_id UUID)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _is_admin BOOLEAN := public.has_role(auth.uid(), 'admin');
+  _booking public.bookings;
+  _starts_at TIMESTAMPTZ;
+  _settings public.app_settings;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+
+  IF NOT FOUND OR (_booking.user_id <> _user_id AND NOT _is_admin) THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _booking.booking_status = 'cancelled' THEN
+    RAISE EXCEPTION 'This booking has already been cancelled' USING ERRCODE = '22023';
+  END IF;
+
+  IF _booking.booking_status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Only paid bookings can be cancelled' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _settings FROM public.app_settings;
+
+  SELECT (show_date + show_time)::timestamptz INTO _starts_at
+  FROM public.showtimes WHERE id = _booking.showtime_id;
+
+  IF NOT _is_admin
+    AND now() > _starts_at - make_interval(mins => _settings.cancellation_cutoff_minutes) THEN
+    RAISE EXCEPTION 'Bookings can only be cancelled up to % minutes before the show',
+      _settings.cancellation_cutoff_minutes
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.bookings
+  SET booking_status = 'cancelled',
+      cancelled_at = now(),
+      refund_amount = round(total_price * _settings.cancellation_refund_percent / 100.0, 2)
+  WHERE id = _booking_id
+  RETURNING * INTO _booking;
+
+  DELETE FROM public.booked_seats WHERE booking_id = _booking_id;
+
+  RETURN _booking;
+END;
+$$;
@@ -0,0 +1,252 @@
+-- Promo codes: a percentage or fixed discount, optionally limited to one movie or showtime,
+-- with overall and per-customer usage caps and an optional validity window
+CREATE TABLE public.promo_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL CHECK (code = upper(btrim(code)) AND code <> ''),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+  movie_id UUID REFERENCES public.movies(id) ON DELETE CASCADE,
+  showtime_id UUID REFERENCES public.showtimes(id) ON DELETE CASCADE,
+  max_uses INTEGER CHECK (max_uses > 0),
+  max_uses_per_user INTEGER CHECK (max_uses_per_user > 0),
+  valid_from TIMESTAMPTZ,
+  valid_until TIMESTAMPTZ,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  UNIQUE (code),
+  CHECK (discount_type <> 'percent' OR discount_value <= 100),
+  CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from)
+);
+
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- Customers never list codes; they can only try one through preview_promo_code
+CREATE POLICY "Only admins can view promo codes" ON public.promo_codes FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Only admins can insert promo codes" ON public.promo_codes FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Only admins can update promo codes" ON public.promo_codes FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Only admins can delete promo codes" ON public.promo_codes FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_promo_codes_updated_at
+  BEFORE UPDATE ON public.promo_codes
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record the discount on each booking; total_price is what the customer pays
+ALTER TABLE public.bookings
+  ADD COLUMN promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE SET NULL,
+  ADD COLUMN promo_code TEXT,
+  ADD COLUMN discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+CREATE INDEX bookings_promo_code_id_idx ON public.bookings (promo_code_id);
+
+-- Validate a code for a showtime and subtotal and work out the discount.
+-- Failed and cancelled bookings don't count towards usage caps.
+CREATE OR REPLACE FUNCTION private.resolve_promo_code(
+  _code TEXT,
+  _showtime_id UUID,
+  _subtotal NUMERIC,
+  _user_id UUID,
+  _lock BOOLEAN DEFAULT false
+)
+RETURNS TABLE (promo_code_id UUID, code TEXT, description TEXT, discount_amount NUMERIC)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _promo public.promo_codes;
+  _movie_id UUID;
+  _uses INTEGER;
+BEGIN
+  IF _lock THEN
+    -- Serialize redemptions so usage caps hold under concurrent bookings
+    SELECT * INTO _promo FROM public.promo_codes p WHERE p.code = upper(btrim(_code)) FOR UPDATE;
+  ELSE
+    SELECT * INTO _promo FROM public.promo_codes p WHERE p.code = upper(btrim(_code));
+  END IF;
+
+  IF NOT FOUND OR NOT _promo.active THEN
+    RAISE EXCEPTION 'This promo code is not valid' USING ERRCODE = '22023';
+  END IF;
+
+  IF _promo.valid_from IS NOT NULL AND now() < _promo.valid_from THEN
+    RAISE EXCEPTION 'This promo code is not active yet' USING ERRCODE = '22023';
+  END IF;
+
+  IF _promo.valid_until IS NOT NULL AND now() >= _promo.valid_until THEN
+    RAISE EXCEPTION 'This promo code has expired' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT s.movie_id INTO _movie_id FROM public.showtimes s WHERE s.id = _showtime_id;
+
+  IF (_promo.showtime_id IS NOT NULL AND _promo.showtime_id <> _showtime_id)
+    OR (_promo.movie_id IS NOT NULL AND _promo.movie_id <> _movie_id) THEN
+    RAISE EXCEPTION 'This promo code does not apply to this showtime' USING ERRCODE = '22023';
+  END IF;
+
+  IF _promo.max_uses IS NOT NULL THEN
+    SELECT count(*) INTO _uses FROM public.bookings b
+    WHERE b.promo_code_id = _promo.id AND b.booking_status IN ('pending', 'confirmed');
+
+    IF _uses >= _promo.max_uses THEN
+      RAISE EXCEPTION 'This promo code has been fully redeemed' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  IF _promo.max_uses_per_user IS NOT NULL THEN
+    SELECT count(*) INTO _uses FROM public.bookings b
+    WHERE b.promo_code_id = _promo.id AND b.user_id = _user_id
+      AND b.booking_status IN ('pending', 'confirmed');
+
+    IF _uses >= _promo.max_uses_per_user THEN
+      RAISE EXCEPTION 'You have already used this promo code' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT
+    _promo.id,
+    _promo.code,
+    _promo.description,
+    CASE _promo.discount_type
+      WHEN 'percent' THEN round(_subtotal * _promo.discount_value / 100, 2)
+      ELSE least(_promo.discount_value, _subtotal)
+    END;
+END;
+$$;
+
+-- Price a seat selection with a promo code for the booking summary, without redeeming it
+CREATE OR REPLACE FUNCTION public.preview_promo_code(_showtime_id UUID, _seat_labels TEXT[], _code TEXT)
+RETURNS TABLE (code TEXT, description TEXT, subtotal NUMERIC, discount_amount NUMERIC, total NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _subtotal NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to use a promo code' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT COALESCE(sum(public.seat_price(_showtime_id, hs.seat_type)), 0) INTO _subtotal
+  FROM public.showtimes s
+  JOIN public.theater_halls h ON h.id = s.hall_id
+  CROSS JOIN LATERAL public.hall_seats(h.seat_layout) AS hs
+  WHERE s.id = _showtime_id AND hs.seat_label = ANY(_seat_labels);
+
+  RETURN QUERY
+  SELECT p.code, p.description, _subtotal, p.discount_amount, _subtotal - p.discount_amount
+  FROM private.resolve_promo_code(_code, _showtime_id, _subtotal, auth.uid()) AS p;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_promo_code(UUID, TEXT[], TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.preview_promo_code(UUID, TEXT[], TEXT) TO authenticated;
+
+-- book_seats takes an optional promo code, redeemed in the same transaction as the seats
+DROP FUNCTION public.book_seats(UUID, TEXT[]);
+
+CREATE OR REPLACE FUNCTION public.book_seats(_showtime_id UUID, _seat_labels TEXT[], _promo_code TEXT DEFAULT NULL)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _showtime public.showtimes;
+  _layout JSONB;
+  _invalid TEXT[];
+  _taken TEXT[];
+  _total NUMERIC;
+  _promo_id UUID;
+  _promo_text TEXT;
+  _discount NUMERIC := 0;
+  _booking public.bookings;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to book seats' USING ERRCODE = '28000';
+  END IF;
+
+  IF _seat_labels IS NULL OR cardinality(_seat_labels) = 0 THEN
+    RAISE EXCEPTION 'Select at least one seat' USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(_seat_labels) <> (SELECT count(DISTINCT s) FROM unnest(_seat_labels) AS s) THEN
+    RAISE EXCEPTION 'Each seat can only be selected once' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the showtime so concurrent bookings for it are serialized
+  SELECT * INTO _showtime FROM public.showtimes WHERE id = _showtime_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Showtime not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT seat_layout INTO _layout FROM public.theater_halls WHERE id = _showtime.hall_id;
+
+  SELECT array_agg(s ORDER BY s) INTO _invalid
+  FROM unnest(_seat_labels) AS s
+  WHERE s NOT IN (SELECT seat_label FROM public.hall_seats(_layout));
+
+  IF _invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Seats do not exist in this hall: %', array_to_string(_invalid, ', ')
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT array_agg(seat_label ORDER BY seat_label) INTO _taken
+  FROM public.booked_seats
+  WHERE showtime_id = _showtime_id AND seat_label = ANY(_seat_labels);
+
+  IF _taken IS NOT NULL THEN
+    RAISE EXCEPTION 'Seats already booked: %', array_to_string(_taken, ', ')
+      USING ERRCODE = '23505', DETAIL = array_to_string(_taken, ',');
+  END IF;
+
+  SELECT array_agg(seat_label ORDER BY seat_label) INTO _taken
+  FROM public.seat_holds
+  WHERE showtime_id = _showtime_id
+    AND seat_label = ANY(_seat_labels)
+    AND user_id <> _user_id
+    AND expires_at > now();
+
+  IF _taken IS NOT NULL THEN
+    RAISE EXCEPTION 'Seats are being held by another customer: %', array_to_string(_taken, ', ')
+      USING ERRCODE = '23505', DETAIL = array_to_string(_taken, ',');
+  END IF;
+
+  SELECT sum(public.seat_price(_showtime_id, hs.seat_type)) INTO _total
+  FROM public.hall_seats(_layout) AS hs
+  WHERE hs.seat_label = ANY(_seat_labels);
+
+  IF _promo_code IS NOT NULL AND btrim(_promo_code) <> '' THEN
+    SELECT p.promo_code_id, p.code, p.discount_amount INTO _promo_id, _promo_text, _discount
+    FROM private.resolve_promo_code(_promo_code, _showtime_id, _total, _user_id, true) AS p;
+  END IF;
+
+  INSERT INTO public.bookings (user_id, showtime_id, seats, total_price, promo_code_id, promo_code, discount_amount)
+  VALUES (
+    _user_id,
+    _showtime_id,
+    _seat_labels,
+    _total - _discount,
+    _promo_id,
+    _promo_text,
+    _discount
+  )
+  RETURNING * INTO _booking;
+
+  INSERT INTO public.booked_seats (showtime_id, seat_label, booking_id)
+  SELECT _showtime_id, s, _booking.id FROM unnest(_seat_labels) AS s;
+
+  DELETE FROM public.seat_holds WHERE showtime_id = _showtime_id AND user_id = _user_id;
+
+  RETURN _booking;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.book_seats(UUID, TEXT[], TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.book_seats(UUID, TEXT[], TEXT) TO authenticated;
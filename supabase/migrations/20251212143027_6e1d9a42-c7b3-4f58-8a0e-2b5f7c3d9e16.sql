@@ -0,0 +1,299 @@
+-- Ticket categories: every seat is sold as adult, child, senior or student.
+-- Adults pay the seat price; other categories are priced per showtime for a standard seat,
+-- with the seat type's surcharge over the base ticket price added on top.
+-- A category without a price isn't sold for that showtime.
+ALTER TABLE public.showtimes
+  ADD COLUMN ticket_category_prices JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.showtime_series
+  ADD COLUMN ticket_category_prices JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- What was bought, one entry per seat: { seat, seat_type, category, price }
+ALTER TABLE public.bookings
+  ADD COLUMN ticket_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE OR REPLACE FUNCTION public.ticket_price(_showtime_id UUID, _seat_type TEXT, _category TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _category = 'adult' THEN public.seat_price(_showtime_id, _seat_type)
+    ELSE greatest(
+      (s.ticket_category_prices->>_category)::numeric
+        + public.seat_price(_showtime_id, _seat_type) - s.ticket_price,
+      0
+    )
+  END
+  FROM public.showtimes s
+  WHERE s.id = _showtime_id
+$$;
+
+-- Price each seat of a selection by its type and category; seats missing from
+-- _categories (a { seat_label: category } map) are sold as adult
+CREATE OR REPLACE FUNCTION private.price_seats(_showtime_id UUID, _seat_labels TEXT[], _categories JSONB)
+RETURNS TABLE (seat_label TEXT, seat_type TEXT, category TEXT, price NUMERIC)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _unavailable TEXT[];
+BEGIN
+  SELECT array_agg(DISTINCT c ORDER BY c) INTO _unavailable
+  FROM jsonb_each_text(COALESCE(_categories, '{}'::jsonb)) AS e(seat, c)
+  JOIN public.showtimes s ON s.id = _showtime_id
+  WHERE e.seat = ANY(_seat_labels)
+    AND c <> 'adult'
+    AND (c NOT IN ('child', 'senior', 'student') OR NOT s.ticket_category_prices ? c);
+
+  IF _unavailable IS NOT NULL THEN
+    RAISE EXCEPTION 'Ticket categories not available for this showtime: %', array_to_string(_unavailable, ', ')
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT hs.seat_label, hs.seat_type, t.category, public.ticket_price(_showtime_id, hs.seat_type, t.category)
+  FROM public.showtimes s
+  JOIN public.theater_halls h ON h.id = s.hall_id
+  CROSS JOIN LATERAL public.hall_seats(h.seat_layout) AS hs
+  CROSS JOIN LATERAL (SELECT COALESCE(_categories->>hs.seat_label, 'adult') AS category) AS t
+  WHERE s.id = _showtime_id AND hs.seat_label = ANY(_seat_labels)
+  ORDER BY array_position(_seat_labels, hs.seat_label);
+END;
+$$;
+
+-- preview_promo_code prices the selection with its ticket categories
+DROP FUNCTION public.preview_promo_code(UUID, TEXT[], TEXT);
+
+CREATE OR REPLACE FUNCTION public.preview_promo_code(
+  _showtime_id UUID,
+  _seat_labels TEXT[],
+  _code TEXT,
+  _ticket_categories JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (code TEXT, description TEXT, subtotal NUMERIC, discount_amount NUMERIC, total NUMERIC)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _subtotal NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to use a promo code' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT COALESCE(sum(ps.price), 0) INTO _subtotal
+  FROM private.price_seats(_showtime_id, _seat_labels, _ticket_categories) AS ps;
+
+  RETURN QUERY
+  SELECT p.code, p.description, _subtotal, p.discount_amount, _subtotal - p.discount_amount
+  FROM private.resolve_promo_code(_code, _showtime_id, _subtotal, auth.uid()) AS p;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_promo_code(UUID, TEXT[], TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.preview_promo_code(UUID, TEXT[], TEXT, JSONB) TO authenticated;
+
+-- book_seats takes a ticket category per seat and stores the per-seat breakdown
+DROP FUNCTION public.book_seats(UUID, TEXT[], TEXT);
+
+CREATE OR REPLACE FUNCTION public.book_seats(
+  _showtime_id UUID,
+  _seat_labels TEXT[],
+  _promo_code TEXT DEFAULT NULL,
+  _ticket_categories JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _showtime public.showtimes;
+  _layout JSONB;
+  _invalid TEXT[];
+  _taken TEXT[];
+  _total NUMERIC;
+  _breakdown JSONB;
+  _promo_id UUID;
+  _promo_text TEXT;
+  _discount NUMERIC := 0;
+  _booking public.bookings;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to book seats' USING ERRCODE = '28000';
+  END IF;
+
+  IF _seat_labels IS NULL OR cardinality(_seat_labels) = 0 THEN
+    RAISE EXCEPTION 'Select at least one seat' USING ERRCODE = '22023';
+  END IF;
+
+  IF cardinality(_seat_labels) <> (SELECT count(DISTINCT s) FROM unnest(_seat_labels) AS s) THEN
+    RAISE EXCEPTION 'Each seat can only be selected once' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the showtime so concurrent bookings for it are serialized
+  SELECT * INTO _showtime FROM public.showtimes WHERE id = _showtime_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Showtime not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT seat_layout INTO _layout FROM public.theater_halls WHERE id = _showtime.hall_id;
+
+  SELECT array_agg(s ORDER BY s) INTO _invalid
+  FROM unnest(_seat_labels) AS s
+  WHERE s NOT IN (SELECT seat_label FROM public.hall_seats(_layout));
+
+  IF _invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Seats do not exist in this hall: %', array_to_string(_invalid, ', ')
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT array_agg(seat_label ORDER BY seat_label) INTO _taken
+  FROM public.booked_seats
+  WHERE showtime_id = _showtime_id AND seat_label = ANY(_seat_labels);
+
+  IF _taken IS NOT NULL THEN
+    RAISE EXCEPTION 'Seats already booked: %', array_to_string(_taken, ', ')
+      USING ERRCODE = '23505', DETAIL = array_to_string(_taken, ',');
+  END IF;
+
+  SELECT array_agg(seat_label ORDER BY seat_label) INTO _taken
+  FROM public.seat_holds
+  WHERE showtime_id = _showtime_id
+    AND seat_label = ANY(_seat_labels)
+    AND user_id <> _user_id
+    AND expires_at > now();
+
+  IF _taken IS NOT NULL THEN
+    RAISE EXCEPTION 'Seats are being held by another customer: %', array_to_string(_taken, ', ')
+      USING ERRCODE = '23505', DETAIL = array_to_string(_taken, ',');
+  END IF;
+
+  SELECT
+    sum(ps.price),
+    jsonb_agg(jsonb_build_object(
+      'seat', ps.seat_label,
+      'seat_type', ps.seat_type,
+      'category', ps.category,
+      'price', ps.price
+    ))
+  INTO _total, _breakdown
+  FROM private.price_seats(_showtime_id, _seat_labels, _ticket_categories) AS ps;
+
+  IF _promo_code IS NOT NULL AND btrim(_promo_code) <> '' THEN
+    SELECT p.promo_code_id, p.code, p.discount_amount INTO _promo_id, _promo_text, _discount
+    FROM private.resolve_promo_code(_promo_code, _showtime_id, _total, _user_id, true) AS p;
+  END IF;
+
+  INSERT INTO public.bookings
+    (user_id, showtime_id, seats, total_price, ticket_breakdown, promo_code_id, promo_code, discount_amount)
+  VALUES (
+    _user_id,
+    _showtime_id,
+    _seat_labels,
+    _total - _discount,
+    _breakdown,
+    _promo_id,
+    _promo_text,
+    _discount
+  )
+  RETURNING * INTO _booking;
+
+  INSERT INTO public.booked_seats (showtime_id, seat_label, booking_id)
+  SELECT _showtime_id, s, _booking.id FROM unnest(_seat_labels) AS s;
+
+  DELETE FROM public.seat_holds WHERE showtime_id = _showtime_id AND user_id = _user_id;
+
+  RETURN _booking;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.book_seats(UUID, TEXT[], TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.book_seats(UUID, TEXT[], TEXT, JSONB) TO authenticated;
+
+-- Series carry category prices through to the showtimes they generate
+DROP FUNCTION public.save_showtime_series(UUID, UUID, UUID, SMALLINT[], TIME[], DATE, DATE, DECIMAL, JSONB);
+
+CREATE OR REPLACE FUNCTION public.save_showtime_series(
+  _series_id UUID,
+  _movie_id UUID,
+  _hall_id UUID,
+  _weekdays SMALLINT[],
+  _show_times TIME[],
+  _start_date DATE,
+  _end_date DATE,
+  _ticket_price DECIMAL,
+  _seat_type_prices JSONB DEFAULT '{}'::jsonb,
+  _ticket_category_prices JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID := _series_id;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage showtime series' USING ERRCODE = '42501';
+  END IF;
+
+  IF _end_date - _start_date > 366 THEN
+    RAISE EXCEPTION 'A series can span at most one year' USING ERRCODE = '22023';
+  END IF;
+
+  IF _id IS NULL THEN
+    INSERT INTO public.showtime_series
+      (movie_id, hall_id, weekdays, show_times, start_date, end_date, ticket_price, seat_type_prices,
+       ticket_category_prices)
+    VALUES
+      (_movie_id, _hall_id, _weekdays, _show_times, _start_date, _end_date, _ticket_price, _seat_type_prices,
+       _ticket_category_prices)
+    RETURNING id INTO _id;
+  ELSE
+    UPDATE public.showtime_series
+    SET movie_id = _movie_id,
+        hall_id = _hall_id,
+        weekdays = _weekdays,
+        show_times = _show_times,
+        start_date = _start_date,
+        end_date = _end_date,
+        ticket_price = _ticket_price,
+        seat_type_prices = _seat_type_prices,
+        ticket_category_prices = _ticket_category_prices
+    WHERE id = _id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Showtime series not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM public.showtimes s
+    WHERE s.series_id = _id
+      AND s.starts_at >= now()
+      AND NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.showtime_id = s.id);
+  END IF;
+
+  INSERT INTO public.showtimes
+    (movie_id, hall_id, show_date, show_time, ticket_price, seat_type_prices, ticket_category_prices, series_id)
+  SELECT _movie_id, _hall_id, d::date, t, _ticket_price, _seat_type_prices, _ticket_category_prices, _id
+  FROM generate_series(_start_date, _end_date, interval '1 day') AS d
+  CROSS JOIN unnest(_show_times) AS t
+  WHERE EXTRACT(ISODOW FROM d)::SMALLINT = ANY (_weekdays)
+    AND d::date + t >= now()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.showtimes s
+      WHERE s.series_id = _id AND s.show_date = d::date AND s.show_time = t
+    );
+
+  RETURN _id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_showtime_series(UUID, UUID, UUID, SMALLINT[], TIME[], DATE, DATE, DECIMAL, JSONB, JSONB)
+  FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_showtime_series(UUID, UUID, UUID, SMALLINT[], TIME[], DATE, DATE, DECIMAL, JSONB, JSONB)
+  TO authenticated;
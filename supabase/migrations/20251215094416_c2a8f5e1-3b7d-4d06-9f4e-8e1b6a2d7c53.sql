@@ -0,0 +1,236 @@
+-- Concessions catalog: single items with optional stock tracking, and combos made up of items.
+-- A combo has no stock of its own; selling one takes stock from its items.
+CREATE TABLE public.concessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  kind TEXT NOT NULL DEFAULT 'item' CHECK (kind IN ('item', 'combo')),
+  price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+  stock INTEGER CHECK (stock >= 0), -- NULL when stock isn't tracked
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  CHECK (kind = 'item' OR stock IS NULL)
+);
+
+CREATE TABLE public.concession_combo_items (
+  combo_id UUID REFERENCES public.concessions(id) ON DELETE CASCADE NOT NULL,
+  item_id UUID REFERENCES public.concessions(id) ON DELETE RESTRICT NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  PRIMARY KEY (combo_id, item_id),
+  CHECK (combo_id <> item_id)
+);
+
+CREATE INDEX concession_combo_items_item_id_idx ON public.concession_combo_items (item_id);
+
+ALTER TABLE public.concessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.concession_combo_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active concessions" ON public.concessions FOR SELECT
+  USING (active OR public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Only admins can insert concessions" ON public.concessions FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Only admins can update concessions" ON public.concessions FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Only admins can delete concessions" ON public.concessions FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view combo items" ON public.concession_combo_items FOR SELECT USING (true);
+CREATE POLICY "Only admins can insert combo items" ON public.concession_combo_items FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Only admins can update combo items" ON public.concession_combo_items FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Only admins can delete combo items" ON public.concession_combo_items FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_concessions_updated_at
+  BEFORE UPDATE ON public.concessions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add-ons bought with a booking. Name and price are copied so the line survives catalog edits,
+-- and stock_items ({ item_id: quantity }) records the stock taken so it can be given back exactly.
+CREATE TABLE public.booking_concessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE NOT NULL,
+  concession_id UUID REFERENCES public.concessions(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  unit_price DECIMAL(10,2) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  stock_items JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX booking_concessions_booking_id_idx ON public.booking_concessions (booking_id);
+
+ALTER TABLE public.booking_concessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own booking concessions" ON public.booking_concessions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = booking_id AND b.user_id = auth.uid()));
+CREATE POLICY "Admins can view all booking concessions" ON public.booking_concessions FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- total_price includes add-ons; the promo discount only ever applies to tickets
+ALTER TABLE public.bookings
+  ADD COLUMN concessions_total DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Stock a booking's add-ons took, per tracked item
+CREATE OR REPLACE FUNCTION private.booking_stock_usage(_booking_id UUID)
+RETURNS TABLE (item_id UUID, quantity INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT e.key::uuid, sum(e.value::int)::int
+  FROM public.booking_concessions bc
+  CROSS JOIN LATERAL jsonb_each_text(bc.stock_items) AS e
+  WHERE bc.booking_id = _booking_id
+  GROUP BY e.key
+$$;
+
+CREATE OR REPLACE FUNCTION private.restock_booking_concessions(_booking_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.concessions c
+  SET stock = c.stock + u.quantity
+  FROM private.booking_stock_usage(_booking_id) AS u
+  WHERE c.id = u.item_id AND c.stock IS NOT NULL
+$$;
+
+-- Give stock back when a booking fails, is cancelled or is deleted
+CREATE OR REPLACE FUNCTION public.restock_released_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM private.restock_booking_concessions(OLD.id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM private.restock_booking_concessions(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restock_released_booking
+  AFTER UPDATE OF booking_status ON public.bookings
+  FOR EACH ROW
+  WHEN (OLD.booking_status IN ('pending', 'confirmed') AND NEW.booking_status IN ('failed', 'cancelled'))
+  EXECUTE FUNCTION public.restock_released_booking();
+
+-- BEFORE, so the lines are still there when the delete cascades to them
+CREATE TRIGGER restock_deleted_booking
+  BEFORE DELETE ON public.bookings
+  FOR EACH ROW
+  WHEN (OLD.booking_status IN ('pending', 'confirmed'))
+  EXECUTE FUNCTION public.restock_released_booking();
+
+-- Replace the add-ons on one of the caller's pending bookings. _items maps concession ids
+-- to quantities; an empty object clears them.
+CREATE OR REPLACE FUNCTION public.set_booking_concessions(_booking_id UUID, _items JSONB)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+  _unavailable TEXT[];
+  _short TEXT[];
+  _concessions_total NUMERIC;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings
+  WHERE id = _booking_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _booking.booking_status <> 'pending' OR _booking.payment_due_at < now() THEN
+    RAISE EXCEPTION 'This booking is no longer awaiting payment' USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(_items) <> 'object' OR EXISTS (
+    SELECT 1 FROM jsonb_each_text(_items) AS e
+    WHERE CASE WHEN e.value ~ '^\d{1,2}$' THEN e.value::int > 20 ELSE true END
+  ) THEN
+    RAISE EXCEPTION 'Add-on quantities must be whole numbers up to 20' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT array_agg(e.key) INTO _unavailable
+  FROM jsonb_each_text(_items) AS e
+  LEFT JOIN public.concessions c ON c.id::text = e.key AND c.active
+  WHERE c.id IS NULL AND e.value::int > 0;
+
+  IF _unavailable IS NOT NULL THEN
+    RAISE EXCEPTION 'Some add-ons are no longer available' USING ERRCODE = '22023';
+  END IF;
+
+  -- Put back what the previous selection took before taking stock for the new one
+  PERFORM private.restock_booking_concessions(_booking_id);
+  DELETE FROM public.booking_concessions WHERE booking_id = _booking_id;
+
+  INSERT INTO public.booking_concessions (booking_id, concession_id, name, unit_price, quantity, stock_items)
+  SELECT
+    _booking_id,
+    c.id,
+    c.name,
+    c.price,
+    e.value::int,
+    CASE c.kind
+      WHEN 'item' THEN jsonb_build_object(c.id, e.value::int)
+      ELSE (
+        SELECT COALESCE(jsonb_object_agg(ci.item_id, ci.quantity * e.value::int), '{}'::jsonb)
+        FROM public.concession_combo_items ci
+        WHERE ci.combo_id = c.id
+      )
+    END
+  FROM jsonb_each_text(_items) AS e
+  JOIN public.concessions c ON c.id::text = e.key
+  WHERE e.value::int > 0;
+
+  -- Lock the tracked items so concurrent orders can't oversell them
+  PERFORM 1 FROM public.concessions c
+  WHERE c.id IN (SELECT u.item_id FROM private.booking_stock_usage(_booking_id) AS u)
+  ORDER BY c.id
+  FOR UPDATE;
+
+  SELECT array_agg(c.name || ' (' || c.stock || ' left)' ORDER BY c.name) INTO _short
+  FROM private.booking_stock_usage(_booking_id) AS u
+  JOIN public.concessions c ON c.id = u.item_id
+  WHERE c.stock < u.quantity;
+
+  IF _short IS NOT NULL THEN
+    RAISE EXCEPTION 'Not enough stock: %', array_to_string(_short, ', ') USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.concessions c
+  SET stock = c.stock - u.quantity
+  FROM private.booking_stock_usage(_booking_id) AS u
+  WHERE c.id = u.item_id AND c.stock IS NOT NULL;
+
+  SELECT COALESCE(sum(unit_price * quantity), 0) INTO _concessions_total
+  FROM public.booking_concessions WHERE booking_id = _booking_id;
+
+  -- An attempt opened for the old amount can't be used any more
+  UPDATE public.payments
+  SET status = 'failed', failure_reason = 'Superseded by a change to the order', completed_at = now()
+  WHERE booking_id = _booking_id AND status = 'pending';
+
+  UPDATE public.bookings
+  SET total_price = total_price - concessions_total + _concessions_total,
+      concessions_total = _concessions_total
+  WHERE id = _booking_id
+  RETURNING * INTO _booking;
+
+  RETURN _booking;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_booking_concessions(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_booking_concessions(UUID, JSONB) TO authenticated;
@@ -0,0 +1,62 @@
+-- Cinemas: each venue owns its halls, so hall names only need to be unique within a cinema
+CREATE TABLE public.cinemas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  address TEXT,
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA name, e.g. Europe/London
+  latitude DECIMAL(9,6) CHECK (latitude BETWEEN -90 AND 90),
+  longitude DECIMAL(9,6) CHECK (longitude BETWEEN -180 AND 180),
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  CHECK ((latitude IS NULL) = (longitude IS NULL))
+);
+
+ALTER TABLE public.cinemas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view cinemas" ON public.cinemas FOR SELECT USING (true);
+CREATE POLICY "Only admins can insert cinemas" ON public.cinemas FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Only admins can update cinemas" ON public.cinemas FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Only admins can delete cinemas" ON public.cinemas FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_cinemas_updated_at
+  BEFORE UPDATE ON public.cinemas
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A CHECK can't look up pg_timezone_names, so reject unknown time zones here
+CREATE OR REPLACE FUNCTION public.validate_cinema_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.timezone USING ERRCODE = '22023';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_cinema_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.cinemas
+  FOR EACH ROW EXECUTE FUNCTION public.validate_cinema_timezone();
+
+-- Existing halls move into a single cinema, which admins can rename and fill in
+ALTER TABLE public.theater_halls
+  ADD COLUMN cinema_id UUID REFERENCES public.cinemas(id) ON DELETE CASCADE;
+
+WITH main AS (
+  INSERT INTO public.cinemas (name) VALUES ('Main Cinema') RETURNING id
+)
+UPDATE public.theater_halls SET cinema_id = (SELECT id FROM main);
+
+ALTER TABLE public.theater_halls
+  ALTER COLUMN cinema_id SET NOT NULL,
+  DROP CONSTRAINT theater_halls_name_key,
+  ADD CONSTRAINT theater_halls_cinema_id_name_key UNIQUE (cinema_id, name);
+
+-- The cinema a signed-in customer last picked; guests keep theirs in the browser
+ALTER TABLE public.profiles
+  ADD COLUMN preferred_cinema_id UUID REFERENCES public.cinemas(id) ON DELETE SET NULL;
@@ -0,0 +1,229 @@
+-- Showtimes are entered as wall-clock time at the cinema. starts_at, ends_at and blocked_until now hold the
+-- absolute instants that time stands for in the cinema's zone, so "has it started" no longer depends on
+-- the database session's or the browser's zone.
+ALTER TABLE public.showtimes
+  DROP CONSTRAINT showtimes_hall_no_overlap;
+
+ALTER TABLE public.showtimes
+  ALTER COLUMN starts_at DROP EXPRESSION;
+
+ALTER TABLE public.showtimes
+  ALTER COLUMN starts_at TYPE TIMESTAMPTZ USING starts_at AT TIME ZONE 'UTC',
+  ALTER COLUMN ends_at TYPE TIMESTAMPTZ USING ends_at AT TIME ZONE 'UTC',
+  ALTER COLUMN blocked_until TYPE TIMESTAMPTZ USING blocked_until AT TIME ZONE 'UTC';
+
+-- Existing rows were read as UTC; re-read them in their cinema's zone, keeping each one's length as it was
+ALTER TABLE public.showtimes DISABLE TRIGGER set_showtimes_end;
+
+UPDATE public.showtimes s
+SET starts_at = (s.show_date + s.show_time) AT TIME ZONE c.timezone,
+    ends_at = (s.show_date + s.show_time) AT TIME ZONE c.timezone + (s.ends_at - s.starts_at),
+    blocked_until = (s.show_date + s.show_time) AT TIME ZONE c.timezone + (s.blocked_until - s.starts_at)
+FROM public.theater_halls h
+JOIN public.cinemas c ON c.id = h.cinema_id
+WHERE h.id = s.hall_id;
+
+ALTER TABLE public.showtimes ENABLE TRIGGER set_showtimes_end;
+
+ALTER TABLE public.showtimes
+  ALTER COLUMN starts_at SET NOT NULL,
+  ADD CONSTRAINT showtimes_hall_no_overlap
+  EXCLUDE USING gist (hall_id WITH =, tstzrange(starts_at, blocked_until) WITH &&);
+
+CREATE OR REPLACE FUNCTION public.set_showtime_end()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _duration INTEGER;
+  _buffer INTEGER;
+  _timezone TEXT;
+BEGIN
+  SELECT duration INTO _duration FROM public.movies WHERE id = NEW.movie_id;
+  SELECT cleaning_buffer_minutes INTO _buffer FROM public.app_settings;
+  SELECT c.timezone INTO _timezone
+  FROM public.theater_halls h JOIN public.cinemas c ON c.id = h.cinema_id
+  WHERE h.id = NEW.hall_id;
+
+  NEW.starts_at := (NEW.show_date + NEW.show_time) AT TIME ZONE COALESCE(_timezone, 'UTC');
+  NEW.ends_at := NEW.starts_at + make_interval(mins => _duration);
+  NEW.blocked_until := NEW.ends_at + make_interval(mins => COALESCE(_buffer, 0));
+  RETURN NEW;
+END;
+$$;
+
+-- Upcoming showtimes also move when their cinema changes zone or their hall moves to another cinema
+CREATE OR REPLACE FUNCTION public.refresh_showtime_ends()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'movies' THEN
+    UPDATE public.showtimes SET movie_id = movie_id
+    WHERE movie_id = NEW.id AND starts_at >= now();
+  ELSIF TG_TABLE_NAME = 'cinemas' THEN
+    UPDATE public.showtimes SET movie_id = movie_id
+    WHERE starts_at >= now()
+      AND hall_id IN (SELECT id FROM public.theater_halls WHERE cinema_id = NEW.id);
+  ELSIF TG_TABLE_NAME = 'theater_halls' THEN
+    UPDATE public.showtimes SET movie_id = movie_id
+    WHERE hall_id = NEW.id AND starts_at >= now();
+  ELSE
+    UPDATE public.showtimes SET movie_id = movie_id
+    WHERE starts_at >= now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_showtime_ends_on_timezone
+  AFTER UPDATE OF timezone ON public.cinemas
+  FOR EACH ROW
+  WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone)
+  EXECUTE FUNCTION public.refresh_showtime_ends();
+
+CREATE TRIGGER refresh_showtime_ends_on_cinema
+  AFTER UPDATE OF cinema_id ON public.theater_halls
+  FOR EACH ROW
+  WHEN (OLD.cinema_id IS DISTINCT FROM NEW.cinema_id)
+  EXECUTE FUNCTION public.refresh_showtime_ends();
+
+-- The cancellation cutoff counts back from the showtime's actual start
+CREATE OR REPLACE FUNCTION public.cancel_booking(_booking_id UUID)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _is_admin BOOLEAN := public.has_role(auth.uid(), 'admin');
+  _booking public.bookings;
+  _starts_at TIMESTAMPTZ;
+  _settings public.app_settings;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+
+  IF NOT FOUND OR (_booking.user_id <> _user_id AND NOT _is_admin) THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _booking.booking_status = 'cancelled' THEN
+    RAISE EXCEPTION 'This booking has already been cancelled' USING ERRCODE = '22023';
+  END IF;
+
+  IF _booking.booking_status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Only paid bookings can be cancelled' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _settings FROM public.app_settings;
+
+  SELECT starts_at INTO _starts_at
+  FROM public.showtimes WHERE id = _booking.showtime_id;
+
+  IF NOT _is_admin
+    AND now() > _starts_at - make_interval(mins => _settings.cancellation_cutoff_minutes) THEN
+    RAISE EXCEPTION 'Bookings can only be cancelled up to % minutes before the show',
+      _settings.cancellation_cutoff_minutes
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.bookings
+  SET booking_status = 'cancelled',
+      cancelled_at = now(),
+      refund_amount = round(total_price * _settings.cancellation_refund_percent / 100.0, 2)
+  WHERE id = _booking_id
+  RETURNING * INTO _booking;
+
+  DELETE FROM public.booked_seats WHERE booking_id = _booking_id;
+
+  RETURN _booking;
+END;
+$$;
+
+-- Series skip occurrences that have already started at the hall's cinema
+CREATE OR REPLACE FUNCTION public.save_showtime_series(
+  _series_id UUID,
+  _movie_id UUID,
+  _hall_id UUID,
+  _weekdays SMALLINT[],
+  _show_times TIME[],
+  _start_date DATE,
+  _end_date DATE,
+  _ticket_price DECIMAL,
+  _seat_type_prices JSONB DEFAULT '{}'::jsonb,
+  _ticket_category_prices JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID := _series_id;
+  _timezone TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage showtime series' USING ERRCODE = '42501';
+  END IF;
+
+  IF _end_date - _start_date > 366 THEN
+    RAISE EXCEPTION 'A series can span at most one year' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT c.timezone INTO _timezone
+  FROM public.theater_halls h JOIN public.cinemas c ON c.id = h.cinema_id
+  WHERE h.id = _hall_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Hall not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _id IS NULL THEN
+    INSERT INTO public.showtime_series
+      (movie_id, hall_id, weekdays, show_times, start_date, end_date, ticket_price, seat_type_prices,
+       ticket_category_prices)
+    VALUES
+      (_movie_id, _hall_id, _weekdays, _show_times, _start_date, _end_date, _ticket_price, _seat_type_prices,
+       _ticket_category_prices)
+    RETURNING id INTO _id;
+  ELSE
+    UPDATE public.showtime_series
+    SET movie_id = _movie_id,
+        hall_id = _hall_id,
+        weekdays = _weekdays,
+        show_times = _show_times,
+        start_date = _start_date,
+        end_date = _end_date,
+        ticket_price = _ticket_price,
+        seat_type_prices = _seat_type_prices,
+        ticket_category_prices = _ticket_category_prices
+    WHERE id = _id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Showtime series not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM public.showtimes s
+    WHERE s.series_id = _id
+      AND s.starts_at >= now()
+      AND NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.showtime_id = s.id);
+  END IF;
+
+  INSERT INTO public.showtimes
+    (movie_id, hall_id, show_date, show_time, ticket_price, seat_type_prices, ticket_category_prices, series_id)
+  SELECT _movie_id, _hall_id, d::date, t, _ticket_price, _seat_type_prices, _ticket_category_prices, _id
+  FROM generate_series(_start_date, _end_date, interval '1 day') AS d
+  CROSS JOIN unnest(_show_times) AS t
+  WHERE EXTRACT(ISODOW FROM d)::SMALLINT = ANY (_weekdays)
+    AND (d::date + t) AT TIME ZONE _timezone >= now()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.showtimes s
+      WHERE s.series_id = _id AND s.show_date = d::date AND s.show_time = t
+    );
+
+  RETURN _id;
+END;
+$$;
@@ -0,0 +1,91 @@
+-- Ticket sales for each showtime open a number of days before it starts and close shortly after,
+-- so latecomers can still buy for the first minutes but nobody books a show that is long over
+ALTER TABLE public.app_settings
+  ADD COLUMN sales_open_days INTEGER NOT NULL DEFAULT 30 CHECK (sales_open_days >= 0),
+  ADD COLUMN sales_close_minutes INTEGER NOT NULL DEFAULT 15 CHECK (sales_close_minutes >= 0);
+
+ALTER TABLE public.showtimes
+  ADD COLUMN sales_open_at TIMESTAMPTZ,
+  ADD COLUMN sales_close_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION public.set_showtime_end()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _duration INTEGER;
+  _settings public.app_settings;
+  _timezone TEXT;
+BEGIN
+  SELECT duration INTO _duration FROM public.movies WHERE id = NEW.movie_id;
+  SELECT * INTO _settings FROM public.app_settings;
+  SELECT c.timezone INTO _timezone
+  FROM public.theater_halls h JOIN public.cinemas c ON c.id = h.cinema_id
+  WHERE h.id = NEW.hall_id;
+
+  NEW.starts_at := (NEW.show_date + NEW.show_time) AT TIME ZONE COALESCE(_timezone, 'UTC');
+  NEW.ends_at := NEW.starts_at + make_interval(mins => _duration);
+  NEW.blocked_until := NEW.ends_at + make_interval(mins => COALESCE(_settings.cleaning_buffer_minutes, 0));
+  NEW.sales_open_at := NEW.starts_at - make_interval(days => COALESCE(_settings.sales_open_days, 30));
+  NEW.sales_close_at := NEW.starts_at + make_interval(mins => COALESCE(_settings.sales_close_minutes, 15));
+  RETURN NEW;
+END;
+$$;
+
+-- Backfill with the defaults; leaving the trigger out keeps past showtimes' ends as they were
+ALTER TABLE public.showtimes DISABLE TRIGGER set_showtimes_end;
+
+UPDATE public.showtimes
+SET sales_open_at = starts_at - interval '30 days',
+    sales_close_at = starts_at + interval '15 minutes';
+
+ALTER TABLE public.showtimes ENABLE TRIGGER set_showtimes_end;
+
+ALTER TABLE public.showtimes
+  ALTER COLUMN sales_open_at SET NOT NULL,
+  ALTER COLUMN sales_close_at SET NOT NULL;
+
+CREATE TRIGGER refresh_showtime_sales_window
+  AFTER UPDATE OF sales_open_days, sales_close_minutes ON public.app_settings
+  FOR EACH ROW
+  WHEN (OLD.sales_open_days IS DISTINCT FROM NEW.sales_open_days
+    OR OLD.sales_close_minutes IS DISTINCT FROM NEW.sales_close_minutes)
+  EXECUTE FUNCTION public.refresh_showtime_ends();
+
+-- Seats can only be held or booked while the showtime's sales window is open.
+-- Checked on insert so every path that sells seats is covered, not just today's RPCs.
+CREATE OR REPLACE FUNCTION public.enforce_sales_window()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _showtime public.showtimes;
+BEGIN
+  SELECT * INTO _showtime FROM public.showtimes WHERE id = NEW.showtime_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF now() < _showtime.sales_open_at THEN
+    RAISE EXCEPTION 'Sales for this showtime are not open yet'
+      USING ERRCODE = '22023', DETAIL = _showtime.sales_open_at::text;
+  END IF;
+
+  IF now() >= _showtime.sales_close_at THEN
+    RAISE EXCEPTION 'Sales for this showtime have closed' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_booking_sales_window
+  BEFORE INSERT ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_sales_window();
+
+CREATE TRIGGER enforce_seat_hold_sales_window
+  BEFORE INSERT ON public.seat_holds
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_sales_window();
@@ -0,0 +1,20 @@
+-- Posters uploaded from the admin movie editor, stored once per size
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('movie-posters', 'movie-posters', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view movie posters" ON storage.objects FOR SELECT
+  USING (bucket_id = 'movie-posters');
+CREATE POLICY "Only admins can upload movie posters" ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'movie-posters' AND public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Only admins can update movie posters" ON storage.objects FOR UPDATE
+  USING (bucket_id = 'movie-posters' AND public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Only admins can delete movie posters" ON storage.objects FOR DELETE
+  USING (bucket_id = 'movie-posters' AND public.has_role(auth.uid(), 'admin'));
+
+-- poster_url stays the card-sized image so existing readers keep working. poster_path is the
+-- storage folder of an uploaded poster (NULL for pasted URLs) so its files can be removed later.
+ALTER TABLE public.movies
+  ADD COLUMN poster_thumbnail_url TEXT,
+  ADD COLUMN poster_hero_url TEXT,
+  ADD COLUMN poster_path TEXT;
@@ -0,0 +1,108 @@
+-- Full-text search over the catalog: titles weigh most, then genres, then the synopsis.
+-- array_to_string isn't immutable, so a trigger keeps the vector instead of a generated column.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE public.movies
+  ADD COLUMN search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION public.set_movie_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(NEW.genres, ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_movies_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, genres ON public.movies
+  FOR EACH ROW EXECUTE FUNCTION public.set_movie_search_vector();
+
+UPDATE public.movies SET title = title;
+
+CREATE INDEX movies_search_vector_idx ON public.movies USING gin (search_vector);
+-- Trigram matching on titles catches typos the stemmer can't
+CREATE INDEX movies_title_trgm_idx ON public.movies USING gin (title gin_trgm_ops);
+
+-- Search and filter the catalog a page at a time. Without a query, newest movies come first.
+-- _cinema_id keeps movies with upcoming showtimes there; _showing_on keeps movies with a
+-- showtime still to come on that (cinema-local) date.
+CREATE OR REPLACE FUNCTION public.search_movies(
+  _query TEXT DEFAULT NULL,
+  _genre TEXT DEFAULT NULL,
+  _min_duration INTEGER DEFAULT NULL,
+  _max_duration INTEGER DEFAULT NULL,
+  _showing_on DATE DEFAULT NULL,
+  _cinema_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  poster_url TEXT,
+  genres TEXT[],
+  duration INTEGER,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _search TEXT := NULLIF(btrim(_query), '');
+  _tsquery TSQUERY := websearch_to_tsquery('english', coalesce(_search, ''));
+BEGIN
+  IF _limit IS NULL OR _limit < 1 OR _limit > 100 THEN
+    RAISE EXCEPTION 'Page size must be between 1 and 100' USING ERRCODE = '22023';
+  END IF;
+
+  IF _min_duration IS NOT NULL AND _max_duration IS NOT NULL AND _min_duration > _max_duration THEN
+    RAISE EXCEPTION 'Minimum duration cannot exceed the maximum' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT m.id, m.title, m.poster_url, m.genres, m.duration, m.created_at,
+      CASE
+        WHEN _search IS NULL THEN 0::real
+        ELSE ts_rank(m.search_vector, _tsquery) + word_similarity(_search, m.title)
+      END AS rank
+    FROM public.movies m
+    WHERE (_search IS NULL OR m.search_vector @@ _tsquery OR _search <% m.title)
+      AND (_genre IS NULL OR _genre = ANY (m.genres))
+      AND (_min_duration IS NULL OR m.duration >= _min_duration)
+      AND (_max_duration IS NULL OR m.duration <= _max_duration)
+      AND ((_cinema_id IS NULL AND _showing_on IS NULL) OR EXISTS (
+        SELECT 1
+        FROM public.showtimes s
+        JOIN public.theater_halls h ON h.id = s.hall_id
+        WHERE s.movie_id = m.id
+          AND s.starts_at > now()
+          AND (_cinema_id IS NULL OR h.cinema_id = _cinema_id)
+          AND (_showing_on IS NULL OR s.show_date = _showing_on)
+      ))
+  )
+  SELECT matches.id, matches.title, matches.poster_url, matches.genres, matches.duration, matches.rank,
+    count(*) OVER ()
+  FROM matches
+  ORDER BY matches.rank DESC, matches.created_at DESC, matches.id
+  LIMIT _limit OFFSET greatest(coalesce(_offset, 0), 0);
+END;
+$$;
+
+-- Genres for the filter chips, without downloading the catalog
+CREATE OR REPLACE FUNCTION public.list_movie_genres()
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT genre FROM public.movies, unnest(genres) AS genre ORDER BY genre
+$$;
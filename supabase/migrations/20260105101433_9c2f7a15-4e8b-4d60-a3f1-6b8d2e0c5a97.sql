@@ -0,0 +1,118 @@
+-- Release and end-of-run dates, so the catalog can be split into Now Showing, Coming Soon and past runs
+ALTER TABLE public.movies
+  ADD COLUMN release_date DATE,
+  ADD COLUMN end_date DATE,
+  ADD CONSTRAINT movies_run_dates_check CHECK (end_date IS NULL OR release_date IS NULL OR end_date >= release_date);
+
+CREATE INDEX movies_release_date_idx ON public.movies (release_date);
+
+-- _section picks one shelf of the catalog; each movie sits on at most one:
+--   now_showing: has a showtime still to come (at _cinema_id when given), previews included
+--   coming_soon: otherwise, released after today
+--   archive:     no showtime to come anywhere and already released (or undated)
+-- A movie showing elsewhere but not at _cinema_id appears on none of them.
+DROP FUNCTION public.search_movies(TEXT, TEXT, INTEGER, INTEGER, DATE, UUID, INTEGER, INTEGER);
+
+CREATE FUNCTION public.search_movies(
+  _query TEXT DEFAULT NULL,
+  _genre TEXT DEFAULT NULL,
+  _min_duration INTEGER DEFAULT NULL,
+  _max_duration INTEGER DEFAULT NULL,
+  _showing_on DATE DEFAULT NULL,
+  _cinema_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0,
+  _section TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  poster_url TEXT,
+  genres TEXT[],
+  duration INTEGER,
+  release_date DATE,
+  end_date DATE,
+  section TEXT,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _search TEXT := NULLIF(btrim(_query), '');
+  _tsquery TSQUERY := websearch_to_tsquery('english', coalesce(_search, ''));
+BEGIN
+  IF _limit IS NULL OR _limit < 1 OR _limit > 100 THEN
+    RAISE EXCEPTION 'Page size must be between 1 and 100' USING ERRCODE = '22023';
+  END IF;
+
+  IF _min_duration IS NOT NULL AND _max_duration IS NOT NULL AND _min_duration > _max_duration THEN
+    RAISE EXCEPTION 'Minimum duration cannot exceed the maximum' USING ERRCODE = '22023';
+  END IF;
+
+  IF _section IS NOT NULL AND _section NOT IN ('now_showing', 'coming_soon', 'archive') THEN
+    RAISE EXCEPTION 'Unknown catalog section: %', _section USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH catalog AS (
+    SELECT m.*,
+      EXISTS (
+        SELECT 1
+        FROM public.showtimes s
+        JOIN public.theater_halls h ON h.id = s.hall_id
+        WHERE s.movie_id = m.id
+          AND s.starts_at > now()
+          AND (_cinema_id IS NULL OR h.cinema_id = _cinema_id)
+      ) AS showing_here,
+      EXISTS (
+        SELECT 1 FROM public.showtimes s WHERE s.movie_id = m.id AND s.starts_at > now()
+      ) AS showing_anywhere
+    FROM public.movies m
+  ),
+  shelved AS (
+    SELECT catalog.*,
+      CASE
+        WHEN catalog.showing_here THEN 'now_showing'
+        WHEN catalog.release_date > CURRENT_DATE THEN 'coming_soon'
+        WHEN NOT catalog.showing_anywhere THEN 'archive'
+      END AS section
+    FROM catalog
+  ),
+  matches AS (
+    SELECT m.id, m.title, m.poster_url, m.genres, m.duration, m.release_date, m.end_date, m.section, m.created_at,
+      CASE
+        WHEN _search IS NULL THEN 0::real
+        ELSE ts_rank(m.search_vector, _tsquery) + word_similarity(_search, m.title)
+      END AS rank
+    FROM shelved m
+    WHERE (_search IS NULL OR m.search_vector @@ _tsquery OR _search <% m.title)
+      AND (_genre IS NULL OR _genre = ANY (m.genres))
+      AND (_min_duration IS NULL OR m.duration >= _min_duration)
+      AND (_max_duration IS NULL OR m.duration <= _max_duration)
+      AND (_section IS NULL OR m.section = _section)
+      AND (_section IS NOT NULL OR _cinema_id IS NULL OR m.showing_here)
+      AND (_showing_on IS NULL OR EXISTS (
+        SELECT 1
+        FROM public.showtimes s
+        JOIN public.theater_halls h ON h.id = s.hall_id
+        WHERE s.movie_id = m.id
+          AND s.starts_at > now()
+          AND (_cinema_id IS NULL OR h.cinema_id = _cinema_id)
+          AND s.show_date = _showing_on
+      ))
+  )
+  SELECT matches.id, matches.title, matches.poster_url, matches.genres, matches.duration,
+    matches.release_date, matches.end_date, matches.section, matches.rank,
+    count(*) OVER ()
+  FROM matches
+  ORDER BY matches.rank DESC,
+    CASE WHEN _section = 'coming_soon' THEN matches.release_date END ASC,
+    CASE WHEN _section = 'archive' THEN coalesce(matches.end_date, matches.release_date) END DESC NULLS LAST,
+    matches.created_at DESC,
+    matches.id
+  LIMIT _limit OFFSET greatest(coalesce(_offset, 0), 0);
+END;
+$$;
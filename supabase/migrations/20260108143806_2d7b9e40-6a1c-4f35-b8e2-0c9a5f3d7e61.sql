@@ -0,0 +1,28 @@
+-- Seats left per showtime, for schedule listings that can't load every seat map.
+-- Disabled seats aren't counted (hall_seats skips them) and only unexpired holds take a seat.
+CREATE VIEW public.showtime_availability
+WITH (security_invoker = true) AS
+SELECT
+  s.id AS showtime_id,
+  seats.capacity,
+  booked.seats AS booked,
+  held.seats AS held,
+  greatest(seats.capacity - booked.seats - held.seats, 0) AS available
+FROM public.showtimes s
+JOIN public.theater_halls h ON h.id = s.hall_id
+CROSS JOIN LATERAL (
+  SELECT count(*)::integer AS capacity FROM public.hall_seats(h.seat_layout)
+) AS seats
+CROSS JOIN LATERAL (
+  SELECT count(*)::integer AS seats FROM public.booked_seats b WHERE b.showtime_id = s.id
+) AS booked
+CROSS JOIN LATERAL (
+  SELECT count(*)::integer AS seats
+  FROM public.seat_holds sh
+  WHERE sh.showtime_id = s.id AND sh.expires_at > now()
+) AS held;
+
+GRANT SELECT ON public.showtime_availability TO anon, authenticated;
+
+-- The /showtimes page lists one date at a time
+CREATE INDEX showtimes_show_date_idx ON public.showtimes (show_date);
@@ -0,0 +1,168 @@
+-- Richer catalog metadata. Certifications and formats are fixed lists, mirrored in src/lib/movieMetadata.ts;
+-- languages are ISO 639 codes. "cast" is reserved in SQL, hence cast_members.
+ALTER TABLE public.movies
+  ADD COLUMN certification TEXT
+    CHECK (certification IN ('G', 'PG', 'PG-13', 'R', 'NC-17')),
+  ADD COLUMN original_language TEXT
+    CHECK (original_language ~ '^[a-z]{2,3}$'),
+  ADD COLUMN subtitles TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (array_to_string(subtitles, ',') ~ '^([a-z]{2,3}(,[a-z]{2,3})*)?$'),
+  ADD COLUMN director TEXT,
+  ADD COLUMN cast_members TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN release_year INTEGER
+    CHECK (release_year BETWEEN 1888 AND 2100),
+  ADD COLUMN formats TEXT[] NOT NULL DEFAULT '{2D}'
+    CHECK (cardinality(formats) > 0 AND formats <@ ARRAY['2D', '3D', 'IMAX']);
+
+-- Director and cast are searchable alongside genres
+CREATE OR REPLACE FUNCTION public.set_movie_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(NEW.genres, ' ')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(NEW.director, '') || ' ' || array_to_string(NEW.cast_members, ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER set_movies_search_vector ON public.movies;
+
+CREATE TRIGGER set_movies_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, genres, director, cast_members ON public.movies
+  FOR EACH ROW EXECUTE FUNCTION public.set_movie_search_vector();
+
+-- Adds certification, language and format filters; returns what MovieCard shows
+DROP FUNCTION public.search_movies(TEXT, TEXT, INTEGER, INTEGER, DATE, UUID, INTEGER, INTEGER, TEXT);
+
+CREATE FUNCTION public.search_movies(
+  _query TEXT DEFAULT NULL,
+  _genre TEXT DEFAULT NULL,
+  _min_duration INTEGER DEFAULT NULL,
+  _max_duration INTEGER DEFAULT NULL,
+  _showing_on DATE DEFAULT NULL,
+  _cinema_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0,
+  _section TEXT DEFAULT NULL,
+  _certification TEXT DEFAULT NULL,
+  _language TEXT DEFAULT NULL,
+  _format TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  poster_url TEXT,
+  genres TEXT[],
+  duration INTEGER,
+  release_date DATE,
+  end_date DATE,
+  certification TEXT,
+  formats TEXT[],
+  section TEXT,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _search TEXT := NULLIF(btrim(_query), '');
+  _tsquery TSQUERY := websearch_to_tsquery('english', coalesce(_search, ''));
+BEGIN
+  IF _limit IS NULL OR _limit < 1 OR _limit > 100 THEN
+    RAISE EXCEPTION 'Page size must be between 1 and 100' USING ERRCODE = '22023';
+  END IF;
+
+  IF _min_duration IS NOT NULL AND _max_duration IS NOT NULL AND _min_duration > _max_duration THEN
+    RAISE EXCEPTION 'Minimum duration cannot exceed the maximum' USING ERRCODE = '22023';
+  END IF;
+
+  IF _section IS NOT NULL AND _section NOT IN ('now_showing', 'coming_soon', 'archive') THEN
+    RAISE EXCEPTION 'Unknown catalog section: %', _section USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH catalog AS (
+    SELECT m.*,
+      EXISTS (
+        SELECT 1
+        FROM public.showtimes s
+        JOIN public.theater_halls h ON h.id = s.hall_id
+        WHERE s.movie_id = m.id
+          AND s.starts_at > now()
+          AND (_cinema_id IS NULL OR h.cinema_id = _cinema_id)
+      ) AS showing_here,
+      EXISTS (
+        SELECT 1 FROM public.showtimes s WHERE s.movie_id = m.id AND s.starts_at > now()
+      ) AS showing_anywhere
+    FROM public.movies m
+  ),
+  shelved AS (
+    SELECT catalog.*,
+      CASE
+        WHEN catalog.showing_here THEN 'now_showing'
+        WHEN catalog.release_date > CURRENT_DATE THEN 'coming_soon'
+        WHEN NOT catalog.showing_anywhere THEN 'archive'
+      END AS section
+    FROM catalog
+  ),
+  matches AS (
+    SELECT m.id, m.title, m.poster_url, m.genres, m.duration, m.release_date, m.end_date,
+      m.certification, m.formats, m.section, m.created_at,
+      CASE
+        WHEN _search IS NULL THEN 0::real
+        ELSE ts_rank(m.search_vector, _tsquery) + word_similarity(_search, m.title)
+      END AS rank
+    FROM shelved m
+    WHERE (_search IS NULL OR m.search_vector @@ _tsquery OR _search <% m.title)
+      AND (_genre IS NULL OR _genre = ANY (m.genres))
+      AND (_min_duration IS NULL OR m.duration >= _min_duration)
+      AND (_max_duration IS NULL OR m.duration <= _max_duration)
+      AND (_certification IS NULL OR m.certification = _certification)
+      AND (_language IS NULL OR m.original_language = _language OR _language = ANY (m.subtitles))
+      AND (_format IS NULL OR _format = ANY (m.formats))
+      AND (_section IS NULL OR m.section = _section)
+      AND (_section IS NOT NULL OR _cinema_id IS NULL OR m.showing_here)
+      AND (_showing_on IS NULL OR EXISTS (
+        SELECT 1
+        FROM public.showtimes s
+        JOIN public.theater_halls h ON h.id = s.hall_id
+        WHERE s.movie_id = m.id
+          AND s.starts_at > now()
+          AND (_cinema_id IS NULL OR h.cinema_id = _cinema_id)
+          AND s.show_date = _showing_on
+      ))
+  )
+  SELECT matches.id, matches.title, matches.poster_url, matches.genres, matches.duration,
+    matches.release_date, matches.end_date, matches.certification, matches.formats,
+    matches.section, matches.rank,
+    count(*) OVER ()
+  FROM matches
+  ORDER BY matches.rank DESC,
+    CASE WHEN _section = 'coming_soon' THEN matches.release_date END ASC,
+    CASE WHEN _section = 'archive' THEN coalesce(matches.end_date, matches.release_date) END DESC NULLS LAST,
+    matches.created_at DESC,
+    matches.id
+  LIMIT _limit OFFSET greatest(coalesce(_offset, 0), 0);
+END;
+$$;
+
+-- Languages a movie can be watched in (spoken or subtitled), for the language filter
+CREATE OR REPLACE FUNCTION public.list_movie_languages()
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT language
+  FROM public.movies, unnest(array_append(subtitles, original_language)) AS language
+  WHERE language IS NOT NULL
+  GROUP BY language
+  ORDER BY language
+$$;
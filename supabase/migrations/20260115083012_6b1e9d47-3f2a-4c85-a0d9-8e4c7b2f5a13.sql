@@ -0,0 +1,90 @@
+-- hold_seat only accepts seats that exist in the showtime's hall, caps how many seats one customer
+-- can hold per showtime, and stops extending holds once they have been kept for 15 minutes,
+-- so no single account can keep a hall (or made-up seats) held indefinitely
+CREATE OR REPLACE FUNCTION public.hold_seat(_showtime_id UUID, _seat_label TEXT)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_held CONSTANT INTEGER := 10;
+  _max_hold_time CONSTANT INTERVAL := interval '15 minutes';
+  _user_id UUID := auth.uid();
+  _layout JSONB;
+  _first_held_at TIMESTAMPTZ;
+  _expires_at TIMESTAMPTZ;
+  _held INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to hold seats' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT h.seat_layout INTO _layout
+  FROM public.showtimes s
+  JOIN public.theater_halls h ON h.id = s.hall_id
+  WHERE s.id = _showtime_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Showtime not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.hall_seats(_layout) WHERE seat_label = _seat_label) THEN
+    RAISE EXCEPTION 'Seat % does not exist in this hall', _seat_label
+      USING ERRCODE = '22023', DETAIL = _seat_label;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.booked_seats
+    WHERE showtime_id = _showtime_id AND seat_label = _seat_label
+  ) THEN
+    RAISE EXCEPTION 'Seat % is already booked', _seat_label
+      USING ERRCODE = '23505', DETAIL = _seat_label;
+  END IF;
+
+  SELECT count(*), min(created_at) INTO _held, _first_held_at
+  FROM public.seat_holds
+  WHERE showtime_id = _showtime_id
+    AND user_id = _user_id
+    AND expires_at > now()
+    AND seat_label <> _seat_label;
+
+  IF _held >= _max_held THEN
+    RAISE EXCEPTION 'You can hold at most % seats for a showtime', _max_held USING ERRCODE = '22023';
+  END IF;
+
+  -- Holds are extended five minutes at a time, up to the limit counted from the first seat held
+  _expires_at := least(now() + interval '5 minutes', coalesce(_first_held_at, now()) + _max_hold_time);
+  IF _expires_at <= now() THEN
+    RAISE EXCEPTION 'Your seat hold has run out; release your seats and start again' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.seat_holds (showtime_id, seat_label, user_id, expires_at)
+  VALUES (_showtime_id, _seat_label, _user_id, _expires_at)
+  ON CONFLICT (showtime_id, seat_label) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+      expires_at = EXCLUDED.expires_at,
+      -- A lapsed hold taken over starts a new hold
+      created_at = CASE WHEN seat_holds.expires_at <= now() THEN now() ELSE seat_holds.created_at END
+    WHERE seat_holds.user_id = _user_id OR seat_holds.expires_at <= now();
+
+  GET DIAGNOSTICS _held = ROW_COUNT;
+  IF _held = 0 THEN
+    RAISE EXCEPTION 'Seat % is being held by another customer', _seat_label
+      USING ERRCODE = '23505', DETAIL = _seat_label;
+  END IF;
+
+  UPDATE public.seat_holds
+  SET expires_at = _expires_at
+  WHERE showtime_id = _showtime_id AND user_id = _user_id AND expires_at > now();
+
+  RETURN _expires_at;
+END;
+$$;
+
+-- Drop holds on labels that aren't seats in their hall
+DELETE FROM public.seat_holds sh
+USING public.showtimes s, public.theater_halls h
+WHERE s.id = sh.showtime_id
+  AND h.id = s.hall_id
+  AND NOT EXISTS (SELECT 1 FROM public.hall_seats(h.seat_layout) hs WHERE hs.seat_label = sh.seat_label);
@@ -0,0 +1,30 @@
+-- Count seats, not rows: only booked and held labels that are seats in the hall count, and a seat
+-- that is both held and booked counts once, as booked
+CREATE OR REPLACE VIEW public.showtime_availability
+WITH (security_invoker = true) AS
+SELECT
+  s.id AS showtime_id,
+  seats.capacity,
+  seats.booked,
+  seats.held,
+  seats.capacity - seats.booked - seats.held AS available
+FROM public.showtimes s
+JOIN public.theater_halls h ON h.id = s.hall_id
+CROSS JOIN LATERAL (
+  SELECT
+    count(*)::integer AS capacity,
+    count(*) FILTER (WHERE is_booked)::integer AS booked,
+    count(*) FILTER (WHERE NOT is_booked AND is_held)::integer AS held
+  FROM (
+    SELECT
+      EXISTS (
+        SELECT 1 FROM public.booked_seats b
+        WHERE b.showtime_id = s.id AND b.seat_label = hs.seat_label
+      ) AS is_booked,
+      EXISTS (
+        SELECT 1 FROM public.seat_holds sh
+        WHERE sh.showtime_id = s.id AND sh.seat_label = hs.seat_label AND sh.expires_at > now()
+      ) AS is_held
+    FROM (SELECT DISTINCT seat_label FROM public.hall_seats(h.seat_layout)) AS hs
+  ) AS hall
+) AS seats;
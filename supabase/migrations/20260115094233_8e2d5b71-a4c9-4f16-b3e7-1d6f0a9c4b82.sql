@@ -0,0 +1,25 @@
+-- Deleting a series keeps its booked upcoming showtimes, as save_showtime_series does, so paid
+-- tickets are never dropped without a cancellation or refund. Kept showtimes become standalone
+-- (series_id is SET NULL) and can be cancelled booking by booking.
+CREATE OR REPLACE FUNCTION public.delete_showtime_series(_series_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage showtime series' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.showtimes s
+  WHERE s.series_id = _series_id
+    AND s.starts_at >= now()
+    AND NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.showtime_id = s.id);
+  DELETE FROM public.showtime_series WHERE id = _series_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Showtime series not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
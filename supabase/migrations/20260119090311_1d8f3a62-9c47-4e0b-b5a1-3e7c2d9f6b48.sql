@@ -0,0 +1,6 @@
+-- complete_mock_payment lets a customer mark their own booking as paid, so the mock provider must
+-- never be on unless someone turns it on deliberately. Local databases enable it in supabase/seed.sql.
+ALTER TABLE public.app_settings
+  ALTER COLUMN mock_payments_enabled SET DEFAULT false;
+
+UPDATE public.app_settings SET mock_payments_enabled = false;
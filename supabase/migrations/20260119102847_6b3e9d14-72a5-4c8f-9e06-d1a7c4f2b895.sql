@@ -0,0 +1,72 @@
+-- check_in_ticket refused every unconfirmed booking as cancelled, so door staff couldn't tell
+-- an unpaid or failed payment from a cancellation. Each status now gets its own message.
+CREATE OR REPLACE FUNCTION public.check_in_ticket(_token TEXT, _showtime_id UUID)
+RETURNS TABLE (
+  booking_id UUID,
+  seats TEXT[],
+  customer_name TEXT,
+  admitted_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+  _booking_id UUID;
+  _admitted_at TIMESTAMPTZ;
+  _ticket_showtime TEXT;
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can check in tickets' USING ERRCODE = '42501';
+  END IF;
+
+  _booking_id := private.decode_ticket(_token);
+
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _booking.booking_status <> 'confirmed' THEN
+    RAISE EXCEPTION '%', CASE _booking.booking_status
+        WHEN 'pending' THEN 'This booking has not been paid for'
+        WHEN 'failed' THEN 'Payment for this booking failed'
+        WHEN 'cancelled' THEN 'This booking was cancelled'
+        ELSE 'This booking is not confirmed'
+      END
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _booking.showtime_id <> _showtime_id THEN
+    SELECT m.title || ' on ' || s.show_date || ' at ' || to_char(s.show_time, 'HH24:MI')
+    INTO _ticket_showtime
+    FROM public.showtimes s JOIN public.movies m ON m.id = s.movie_id
+    WHERE s.id = _booking.showtime_id;
+
+    RAISE EXCEPTION 'This ticket is for a different showtime'
+      USING ERRCODE = '22023', DETAIL = _ticket_showtime;
+  END IF;
+
+  SELECT max(bs.admitted_at) INTO _admitted_at
+  FROM public.booked_seats bs WHERE bs.booking_id = _booking_id;
+
+  IF _admitted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This ticket was already used'
+      USING ERRCODE = '23505', DETAIL = _admitted_at::text;
+  END IF;
+
+  UPDATE public.booked_seats bs
+  SET admitted_at = now(), admitted_by = auth.uid()
+  WHERE bs.booking_id = _booking_id;
+
+  RETURN QUERY
+  SELECT _booking.id, _booking.seats,
+    (SELECT p.full_name FROM public.profiles p WHERE p.id = _booking.user_id),
+    now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_in_ticket(TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_in_ticket(TEXT, UUID) TO authenticated;
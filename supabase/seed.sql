@@ -0,0 +1,3 @@
+-- Local development only: `supabase db reset` runs this after the migrations.
+-- Lets the checkout's test provider confirm payments without a real payment provider.
+UPDATE public.app_settings SET mock_payments_enabled = true;